@@ -0,0 +1,130 @@
+import { SparseTypedFastBitSet } from "./SparseTypedFastBitSet";
+import { TypedFastBitSet } from "./TypedFastBitSet";
+import { BitSet } from "./utils";
+
+const inputs = (): BitSet[] => {
+  const sets: BitSet[] = [];
+  for (let i = 1; i < 8; i++) {
+    const values = [];
+    for (let v = i; v < 500 * i; v += i) values.push(v);
+    sets.push(
+      i % 2 === 0
+        ? new TypedFastBitSet(values)
+        : new SparseTypedFastBitSet(values),
+    );
+  }
+  const sparse = new SparseTypedFastBitSet([0, 6, 12, 420, 840, 2520, 9999]);
+  sets.push(sparse); // stays an array
+  return sets;
+};
+
+const aggregate = (
+  sets: BitSet[],
+  op: (a: boolean, b: boolean) => boolean,
+): number[] => {
+  const answer = [];
+  for (let v = 0; v < 10000; v++) {
+    let value = sets[0].has(v);
+    for (let i = 1; i < sets.length; i++) value = op(value, sets[i].has(v));
+    if (value) answer.push(v);
+  }
+  return answer;
+};
+
+const sorted = (b: BitSet) => b.array().sort((x, y) => x - y);
+
+describe("aggregation", () => {
+  for (const [name, cls] of [
+    ["TypedFastBitSet", TypedFastBitSet],
+    ["SparseTypedFastBitSet", SparseTypedFastBitSet],
+  ] as const) {
+    it(`Testing ${name}.unionAll/intersectionAll/xorAll`, () => {
+      const everything = inputs();
+      const subsets = [
+        everything,
+        everything.slice(0, 3),
+        everything.slice(3),
+        [everything[1], everything[3], everything[5]],
+        [everything[0], everything[7]],
+        [everything[2]],
+      ];
+      for (const sets of subsets) {
+        const union = aggregate(sets, (a, b) => a || b);
+        const intersection = aggregate(sets, (a, b) => a && b);
+        const xor = aggregate(sets, (a, b) => a !== b);
+        expect(sorted(cls.unionAll(...sets))).toEqual(union);
+        expect(sorted(cls.intersectionAll(...sets))).toEqual(intersection);
+        expect(sorted(cls.xorAll(...sets))).toEqual(xor);
+        expect(cls.unionAll_size(...sets)).toBe(union.length);
+        expect(cls.intersectionAll_size(...sets)).toBe(intersection.length);
+        expect(cls.xorAll_size(...sets)).toBe(xor.length);
+      }
+      expect(sorted(inputs()[7])).toEqual([0, 6, 12, 420, 840, 2520, 9999]);
+    });
+
+    it(`Testing ${name}.intersectionAll with array inputs`, () => {
+      const words = jest.spyOn(SparseTypedFastBitSet.prototype, "words", "get");
+      try {
+        const sparse = new SparseTypedFastBitSet([5, 50000000]);
+        const other = new TypedFastBitSet([1, 5, 7]);
+        expect(sorted(cls.intersectionAll(other, sparse))).toEqual([5]);
+        expect(cls.intersectionAll_size(sparse, other)).toBe(1);
+        expect(words.mock.contexts).not.toContain(sparse); // stays an array
+      } finally {
+        words.mockRestore();
+      }
+    });
+
+    it(`Testing ${name} aggregation sizes with several arrays`, () => {
+      const words = jest.spyOn(SparseTypedFastBitSet.prototype, "words", "get");
+      try {
+        const arrays = [
+          new SparseTypedFastBitSet([1, 2, 3, 7000]),
+          new SparseTypedFastBitSet([2, 3, 40, 7000]),
+          new SparseTypedFastBitSet([3, 41, 7000, 9000]),
+        ];
+        const sets = [...arrays, new TypedFastBitSet([3, 40, 41, 100])];
+        for (const subset of [arrays, sets, [sets[3], arrays[1]]]) {
+          expect(cls.intersectionAll_size(...subset)).toBe(
+            aggregate(subset, (a, b) => a && b).length,
+          );
+          if (cls === SparseTypedFastBitSet) {
+            expect(cls.unionAll_size(...subset)).toBe(
+              aggregate(subset, (a, b) => a || b).length,
+            );
+            expect(cls.xorAll_size(...subset)).toBe(
+              aggregate(subset, (a, b) => a !== b).length,
+            );
+          }
+        }
+        for (const array of arrays) {
+          expect(words.mock.contexts).not.toContain(array); // stays an array
+        }
+      } finally {
+        words.mockRestore();
+      }
+    });
+
+    it(`Testing ${name} aggregation edge cases`, () => {
+      expect(cls.unionAll().isEmpty()).toBe(true);
+      expect(cls.intersectionAll().isEmpty()).toBe(true);
+      expect(cls.xorAll().isEmpty()).toBe(true);
+      expect(cls.unionAll_size()).toBe(0);
+      expect(cls.intersectionAll_size()).toBe(0);
+      expect(cls.xorAll_size()).toBe(0);
+
+      const a = new TypedFastBitSet([1, 2, 3]);
+      a.resize(5000); // longer logical length
+      const b = new TypedFastBitSet([2, 3, 4]);
+      expect(sorted(cls.intersectionAll(a, b))).toEqual([2, 3]);
+      expect(sorted(cls.intersectionAll(b, a))).toEqual([2, 3]);
+      expect(sorted(cls.unionAll(a, b))).toEqual([1, 2, 3, 4]);
+      expect(sorted(cls.xorAll(a, b, a))).toEqual([2, 3, 4]);
+      expect(cls.intersectionAll(a, new TypedFastBitSet([10])).isEmpty()).toBe(
+        true,
+      );
+      expect(cls.intersectionAll_size(a, b, new TypedFastBitSet())).toBe(0);
+      expect(a.array()).toEqual([1, 2, 3]); // unchanged
+    });
+  }
+});
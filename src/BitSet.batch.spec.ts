@@ -0,0 +1,49 @@
+import { bitsetTest } from "./testUtils";
+
+bitsetTest(({ name, build }) => {
+  describe(name, () => {
+    it("Testing toUint32Array", () => {
+      expect(build().toUint32Array()).toEqual(new Uint32Array(0));
+      const a = [1, 2, 31, 32, 1000, 40];
+      const mb = build(a);
+      expect(Array.from(mb.toUint32Array())).toEqual(a.sort((x, y) => x - y));
+      mb.addRange(100, 500);
+      expect(Array.from(mb.toUint32Array())).toEqual(
+        mb.array().sort((x, y) => x - y),
+      );
+    });
+
+    it("Testing nextMany", () => {
+      const mb = build([1000, 1, 2, 31, 32, 40]);
+      const buffer = new Uint32Array(4);
+      expect(mb.nextMany(buffer)).toBe(4);
+      expect(Array.from(buffer)).toEqual([1, 2, 31, 32]);
+      expect(mb.nextMany(buffer, 33)).toBe(2);
+      expect(Array.from(buffer.subarray(0, 2))).toEqual([40, 1000]);
+      expect(mb.nextMany(buffer, 31)).toBe(4);
+      expect(Array.from(buffer)).toEqual([31, 32, 40, 1000]);
+      expect(mb.nextMany(buffer, 1001)).toBe(0);
+      expect(mb.nextMany(buffer, 100000)).toBe(0);
+      expect(mb.nextMany(new Uint32Array(0))).toBe(0);
+      expect(build().nextMany(buffer)).toBe(0);
+    });
+
+    it("Testing nextMany in chunks", () => {
+      const mb = build();
+      for (let i = 0; i < 3000; i += 3) {
+        mb.add(i);
+      }
+      mb.addRange(5000, 5100);
+      const expected = mb.array().sort((x, y) => x - y);
+      const actual: number[] = [];
+      const buffer = new Uint32Array(64);
+      let n: number;
+      let from = 0;
+      while ((n = mb.nextMany(buffer, from)) > 0) {
+        for (let i = 0; i < n; i++) actual.push(buffer[i]);
+        from = buffer[n - 1] + 1;
+      }
+      expect(actual).toEqual(expected);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { BitSetCollection, BitSetMetric } from "./BitSetCollection";
+import { SparseTypedFastBitSet } from "./SparseTypedFastBitSet";
+import { TypedFastBitSet } from "./TypedFastBitSet";
+import { BitSet } from "./utils";
+
+// deterministic pseudo-random generator
+const random = (seed: number) => () => {
+  seed = (Math.imul(seed, 1103515245) + 12345) >>> 0;
+  return seed / 4294967296;
+};
+
+const fingerprint = (next: () => number, density: number): BitSet => {
+  const b = new TypedFastBitSet();
+  for (let i = 0; i < 512; i++) {
+    if (next() < density) b.add(i);
+  }
+  return b;
+};
+
+const exact = (metric: BitSetMetric, a: BitSet, b: BitSet): number => {
+  switch (metric) {
+    case "jaccard":
+      return a.jaccard(b);
+    case "dice":
+      return a.dice(b);
+    case "cosine":
+      return a.cosine(b);
+    case "hamming":
+      return a.hammingDistance(b);
+  }
+};
+
+describe("BitSetCollection", () => {
+  const next = random(42);
+  const collection = new BitSetCollection();
+  const bitsets: BitSet[] = [];
+  for (let i = 0; i < 300; i++) {
+    const b = fingerprint(next, 0.02 + (i % 30) / 100);
+    bitsets.push(b);
+    expect(collection.add(b)).toBe(i);
+  }
+
+  it("Testing get/size", () => {
+    expect(collection.size()).toBe(300);
+    expect(collection.get(7)).toBe(bitsets[7]);
+    expect(collection.get(300)).toBeUndefined();
+  });
+
+  it("Testing nearest against a full scan", () => {
+    const metrics: BitSetMetric[] = ["jaccard", "dice", "cosine", "hamming"];
+    for (let t = 0; t < 10; t++) {
+      const query = fingerprint(next, 0.05 + t / 30);
+      for (const metric of metrics) {
+        const scores = bitsets.map((b) => exact(metric, query, b));
+        scores.sort((a, b) => (metric === "hamming" ? a - b : b - a));
+        for (const k of [1, 5, 20]) {
+          const matches = collection.nearest(query, k, metric);
+          expect(matches.length).toBe(k);
+          for (let i = 0; i < k; i++) {
+            expect(matches[i].score).toBeCloseTo(scores[i], 12);
+            expect(exact(metric, query, bitsets[matches[i].id])).toBeCloseTo(
+              matches[i].score,
+              12,
+            );
+          }
+        }
+      }
+    }
+  });
+
+  it("Testing pruning by cardinality", () => {
+    const query = bitsets[5].clone();
+    const spy = jest.spyOn(query, "intersection_size");
+    expect(collection.nearest(query, 1)[0]).toEqual({ id: 5, score: 1 });
+    expect(spy.mock.calls.length).toBeLessThan(bitsets.length / 2);
+    spy.mockClear();
+    collection.withinDistance(query, 2);
+    expect(spy.mock.calls.length).toBeLessThan(bitsets.length / 2);
+  });
+
+  it("Testing withinDistance against a full scan", () => {
+    for (let t = 0; t < 10; t++) {
+      const query = bitsets[t * 17].clone();
+      query.flip(t * 3);
+      for (const radius of [0, 1, 10, 60]) {
+        const expected = [];
+        for (let id = 0; id < bitsets.length; id++) {
+          const distance = query.hammingDistance(bitsets[id]);
+          if (distance <= radius) expected.push({ id, score: distance });
+        }
+        expected.sort((a, b) => a.score - b.score || a.id - b.id);
+        expect(collection.withinDistance(query, radius)).toEqual(expected);
+      }
+    }
+  });
+
+  it("Testing edge cases", () => {
+    const empty = new BitSetCollection();
+    expect(empty.nearest(new TypedFastBitSet([1]), 3)).toEqual([]);
+    expect(empty.withinDistance(new TypedFastBitSet([1]), 3)).toEqual([]);
+
+    const small = new BitSetCollection();
+    small.add(new SparseTypedFastBitSet([1, 2, 3]));
+    small.add(new SparseTypedFastBitSet());
+    small.add(new SparseTypedFastBitSet([1, 2]));
+    expect(small.nearest(new TypedFastBitSet([1, 2]), 5)).toEqual([
+      { id: 2, score: 1 },
+      { id: 0, score: 2 / 3 },
+      { id: 1, score: 0 },
+    ]);
+    expect(small.nearest(new TypedFastBitSet(), 1)).toEqual([
+      { id: 1, score: 1 },
+    ]);
+    expect(small.nearest(new TypedFastBitSet([1]), 0)).toEqual([]);
+    expect(small.withinDistance(new TypedFastBitSet([3]), 1)).toEqual([
+      { id: 1, score: 1 },
+    ]);
+    expect(small.withinDistance(new TypedFastBitSet([3]), -1)).toEqual([]);
+  });
+});
@@ -0,0 +1,50 @@
+import { bitsetTest } from "./testUtils";
+
+bitsetTest(({ name, build, arrayEqual }) => {
+  describe(name, () => {
+    it("Testing complement", () => {
+      const mb = build([0, 2, 31, 32, 50, 1000]);
+      mb.complement(40);
+      const expected = [1];
+      for (let i = 3; i < 40; i++) {
+        if (i !== 31 && i !== 32) expected.push(i);
+      }
+      arrayEqual(mb.array(), expected);
+      expect(mb.has(1000)).toBe(false); // outside the universe
+
+      mb.complement(40);
+      arrayEqual(mb.array(), [0, 2, 31, 32]);
+
+      mb.complement(64); // word boundary
+      expect(mb.size()).toBe(60);
+      expect(mb.has(63)).toBe(true);
+      expect(mb.has(64)).toBe(false);
+
+      mb.complement(0);
+      expect(mb.isEmpty()).toBe(true);
+
+      mb.complement(300); // larger than the bitset
+      expect(mb.size()).toBe(300);
+      expect(mb.has(299)).toBe(true);
+      expect(mb.has(300)).toBe(false);
+    });
+
+    it("Testing new_complement", () => {
+      const mb = build([0, 2, 31, 32, 50, 1000]);
+      const c = mb.new_complement(100);
+      arrayEqual(mb.array(), [0, 2, 31, 32, 50, 1000]); // unchanged
+      expect(c.size()).toBe(95);
+      for (let i = 0; i < 1100; i++) {
+        expect(c.has(i)).toBe(i < 100 && !mb.has(i));
+      }
+      expect(
+        c
+          .new_complement(100)
+          .equals(mb.new_intersection(build([...Array(100).keys()]))),
+      ).toBe(true);
+
+      expect(build().new_complement(5).array().length).toBe(5);
+      expect(mb.new_complement(0).isEmpty()).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { bitsetTest } from "./testUtils";
+import { TypedFastBitSet } from "./TypedFastBitSet";
+import { BitSetCursor } from "./BitSetCursor";
+
+describe("cursor logic", () => {
+  it("Testing leapfrog intersection", () => {
+    const a = new TypedFastBitSet();
+    const b = new TypedFastBitSet();
+    const c = new TypedFastBitSet();
+    for (let i = 0; i < 10000; i += 2) a.add(i);
+    for (let i = 0; i < 10000; i += 3) b.add(i);
+    for (let i = 0; i < 10000; i += 5) c.add(i);
+
+    const cursors = [a.cursor(), b.cursor(), c.cursor()];
+    const actual: number[] = [];
+    let target = cursors[0].peek();
+    outer: while (target !== -1) {
+      for (const cursor of cursors) {
+        const v = cursor.advanceTo(target);
+        if (v === -1) break outer;
+        if (v !== target) {
+          target = v;
+          continue outer;
+        }
+      }
+      actual.push(target);
+      cursors[0].next();
+      target = cursors[0].peek();
+    }
+    expect(actual).toEqual(a.new_intersection(b).intersection(c).array());
+  });
+});
+
+bitsetTest(({ name, build }) => {
+  describe(name, () => {
+    it("Testing cursor", () => {
+      const a = [1, 2, 31, 32, 100, 5000];
+      const mb = build(a);
+      expect([...mb.cursor()]).toEqual(a);
+
+      const cursor = mb.cursor();
+      expect(cursor.peek()).toBe(1);
+      expect(cursor.next()).toEqual({ done: false, value: 1 });
+      expect(cursor.advanceTo(30)).toBe(31);
+      expect(cursor.peek()).toBe(31);
+      expect(cursor.advanceTo(2)).toBe(31); // never moves backward
+      expect(cursor.next().value).toBe(31);
+      expect(cursor.next().value).toBe(32);
+      expect(cursor.advanceTo(5000)).toBe(5000);
+      expect(cursor.next().value).toBe(5000);
+      expect(cursor.next().done).toBe(true);
+      expect(cursor.peek()).toBe(-1);
+      expect(cursor.advanceTo(0)).toBe(-1);
+
+      cursor.reset();
+      expect([...cursor]).toEqual(a);
+
+      expect(build().cursor().next().done).toBe(true);
+    });
+
+    it("Testing reverse cursor", () => {
+      const a = [1, 2, 31, 32, 100, 5000];
+      const mb = build(a);
+      const reversed = a.slice().reverse();
+      expect([...mb.cursor({ reverse: true })]).toEqual(reversed);
+
+      const cursor = mb.cursor({ reverse: true });
+      expect(cursor.peek()).toBe(5000);
+      expect(cursor.advanceTo(99)).toBe(32);
+      expect(cursor.advanceTo(1000)).toBe(32); // never moves backward
+      expect(cursor.next().value).toBe(32);
+      expect(cursor.next().value).toBe(31);
+      cursor.reset();
+      expect([...cursor]).toEqual(reversed);
+
+      expect(build().cursor({ reverse: true }).next().done).toBe(true);
+    });
+
+    it("Testing cursor window", () => {
+      const mb = build();
+      mb.addRange(10, 100);
+      const expected = [];
+      for (let i = 40; i < 70; i++) expected.push(i);
+
+      expect([...mb.cursor({ start: 40, end: 70 })]).toEqual(expected);
+      expect([...mb.cursor({ start: 40, end: 70, reverse: true })]).toEqual(
+        expected.slice().reverse(),
+      );
+      expect([...mb.cursor({ start: 100, end: 200 })]).toEqual([]);
+      expect([...mb.cursor({ start: 0, end: 10 })]).toEqual([]);
+      expect([...mb.cursor({ start: 95 })]).toEqual([95, 96, 97, 98, 99]);
+      expect([...mb.cursor({ end: 12, reverse: true })]).toEqual([11, 10]);
+
+      const cursor = new BitSetCursor(mb, { start: 40, end: 70 });
+      expect(cursor.advanceTo(80)).toBe(-1);
+      const reverse = new BitSetCursor(mb, {
+        start: 40,
+        end: 70,
+        reverse: true,
+      });
+      expect(reverse.advanceTo(20)).toBe(-1);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { bitsetTest } from "./testUtils";
+
+bitsetTest(({ name, build, arrayEqual }) => {
+  describe(name, () => {
+    it("Testing insertBits/deleteBits against arrays", () => {
+      const a = [0, 1, 5, 31, 32, 33, 63, 64, 100, 127, 500, 1000];
+      const dense = [];
+      for (let i = 0; i < 3000; i += 5) dense.push(i);
+      for (const values of [a, dense]) {
+        for (const position of [0, 1, 31, 32, 50, 999, 5000]) {
+          for (const count of [1, 3, 32, 33, 100]) {
+            const inserted = build(values);
+            expect(inserted.insertBits(position, count)).toBe(inserted);
+            arrayEqual(
+              inserted.array(),
+              values.map((x) => (x >= position ? x + count : x)),
+            );
+
+            const deleted = build(values);
+            expect(deleted.deleteBits(position, count)).toBe(deleted);
+            arrayEqual(
+              deleted.array(),
+              values
+                .filter((x) => x < position || x >= position + count)
+                .map((x) => (x >= position + count ? x - count : x)),
+            );
+
+            // deleting the inserted gap restores the bitset
+            expect(
+              inserted.deleteBits(position, count).equals(build(values)),
+            ).toBe(true);
+          }
+        }
+      }
+    });
+
+    it("Testing row alignment", () => {
+      const selection = build([2, 3, 7]);
+      selection.insertBits(3, 2); // two rows inserted before row 3
+      arrayEqual(selection.array(), [2, 5, 9]);
+      selection.add(3); // select one of the new rows
+      selection.deleteBits(0, 3); // first three rows deleted
+      arrayEqual(selection.array(), [0, 2, 6]);
+      selection.deleteBits(-5, 0);
+      selection.insertBits(10, -1);
+      arrayEqual(selection.array(), [0, 2, 6]);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { and, not, or, xor } from "./BitSetExpression";
+import { SparseTypedFastBitSet } from "./SparseTypedFastBitSet";
+import { TypedFastBitSet } from "./TypedFastBitSet";
+import { BitSet } from "./utils";
+
+describe("BitSetExpression", () => {
+  const multiples = (step: number, end: number) => {
+    const values = [];
+    for (let v = 0; v < end; v += step) values.push(v);
+    return values;
+  };
+  const a = new TypedFastBitSet(multiples(2, 3000));
+  const b = new SparseTypedFastBitSet(multiples(3, 2000));
+  const c = new TypedFastBitSet(multiples(5, 4000));
+  const d = new SparseTypedFastBitSet([0, 6, 30, 60, 90, 2998, 5000]);
+
+  const check = (
+    expression: ReturnType<typeof and>,
+    expected: (v: number) => boolean,
+    extent: number,
+  ) => {
+    const values = [];
+    for (let v = 0; v < extent; v++) if (expected(v)) values.push(v);
+    expect(expression.toBitSet().array()).toEqual(values);
+    expect(expression.size()).toBe(values.length);
+    expect([...expression]).toEqual(values);
+  };
+  const has = (set: BitSet) => (v: number) => set.has(v);
+
+  it("Testing fused evaluation", () => {
+    const [ha, hb, hc, hd] = [a, b, c, d].map(has);
+    const extent = 6000; // beyond the largest value
+    check(
+      and(a, or(b, c), not(d, extent)),
+      (v) => ha(v) && (hb(v) || hc(v)) && !hd(v),
+      extent,
+    );
+    check(or(a, b, c), (v) => ha(v) || hb(v) || hc(v), extent);
+    check(xor(a, b, c), (v) => (ha(v) !== hb(v)) !== hc(v), extent);
+    check(and(a, b, c, d), (v) => ha(v) && hb(v) && hc(v) && hd(v), extent);
+    check(not(or(a, c), 4100), (v) => !ha(v) && !hc(v), 4100);
+    check(
+      and(not(a, 3500), not(not(c, extent), extent)),
+      (v) => !ha(v) && hc(v),
+      3500,
+    );
+    check(
+      or(and(a, b), and(c, not(b, extent)), xor(d, d)),
+      (v) => (ha(v) && hb(v)) || (hc(v) && !hb(v)),
+      extent,
+    );
+    check(and(a), ha, extent);
+  });
+
+  it("Testing lazy evaluation", () => {
+    const mutable = new TypedFastBitSet([1, 2, 3]);
+    const expression = and(mutable, not(new TypedFastBitSet([2]), 200));
+    expect([...expression]).toEqual([1, 3]);
+    mutable.add(100);
+    mutable.remove(1);
+    expect(expression.toBitSet().array()).toEqual([3, 100]);
+
+    const iterator = or(a, c)[Symbol.iterator]();
+    expect(iterator.next()).toEqual({ done: false, value: 0 });
+    expect(iterator.next()).toEqual({ done: false, value: 2 });
+    expect(iterator.next()).toEqual({ done: false, value: 4 });
+    expect(iterator.next()).toEqual({ done: false, value: 5 });
+  });
+
+  it("Testing operand checks", () => {
+    expect(() => and()).toThrow(RangeError);
+    expect(() => or()).toThrow(RangeError);
+    expect(or(new TypedFastBitSet()).size()).toBe(0);
+    expect([...not(new TypedFastBitSet(), 0)]).toEqual([]);
+    expect([...not(new TypedFastBitSet(), 40)]).toEqual(multiples(1, 40));
+  });
+
+  it("Testing not on equal bitsets", () => {
+    const grown = new TypedFastBitSet([3]);
+    grown.add(1000);
+    grown.remove(1000); // larger buffer, same values
+    const sparse = new SparseTypedFastBitSet();
+    for (let i = 0; i < 200; i++) sparse.add(i); // bitset mode
+    sparse.removeRange(0, 200);
+    sparse.add(3);
+    for (const x of [new TypedFastBitSet([3]), grown, sparse]) {
+      expect(not(x, 100).size()).toBe(99);
+      expect(not(x, 100).toBitSet().max()).toBe(99);
+    }
+  });
+});
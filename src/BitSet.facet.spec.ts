@@ -0,0 +1,71 @@
+import { SparseTypedFastBitSet } from "./SparseTypedFastBitSet";
+import { TypedFastBitSet } from "./TypedFastBitSet";
+import { BitSet } from "./utils";
+
+describe("intersectionSizes", () => {
+  it("Testing TypedFastBitSet.intersectionSizes", () => {
+    const base = new TypedFastBitSet();
+    base.addRange(100, 300);
+    base.addRange(5000, 5100);
+    base.add(9000);
+    const facets: BitSet[] = [];
+    for (let i = 1; i < 40; i++) {
+      const values = [];
+      for (let v = i; v < 250 * i; v += i) values.push(v);
+      facets.push(
+        i % 3 === 0
+          ? new SparseTypedFastBitSet(values)
+          : new TypedFastBitSet(values),
+      );
+    }
+    facets.push(new SparseTypedFastBitSet([1, 150, 5050, 9000, 20000]));
+    facets.push(new TypedFastBitSet([9000, 12000]));
+    facets.push(new TypedFastBitSet());
+    const longer = new TypedFastBitSet([150]);
+    longer.resize(100000); // longer logical length
+    facets.push(longer);
+    const expected = facets.map((facet) => base.intersection_size(facet));
+    expect(Array.from(TypedFastBitSet.intersectionSizes(base, facets))).toEqual(
+      expected,
+    );
+    expect(expected[39]).toBe(3);
+    expect(expected[40]).toBe(1);
+    expect(
+      Array.from(
+        TypedFastBitSet.intersectionSizes(new TypedFastBitSet(), facets),
+      ),
+    ).toEqual(facets.map(() => 0));
+    expect(TypedFastBitSet.intersectionSizes(base, []).length).toBe(0);
+  });
+
+  it("Testing intersectionSizes with SparseTypedFastBitSet", () => {
+    const words = jest.spyOn(SparseTypedFastBitSet.prototype, "words", "get");
+    const probe = jest.spyOn(
+      SparseTypedFastBitSet.prototype,
+      "intersection_size",
+    );
+    try {
+      const dense = new SparseTypedFastBitSet();
+      for (let v = 0; v < 3000; v += 3) dense.add(v); // bitset mode
+      const array = new SparseTypedFastBitSet([6, 7, 2999, 50000000]);
+      const facets = [dense, array, new TypedFastBitSet([6, 9, 12])];
+      const base = new TypedFastBitSet([6, 7, 9, 2000, 2001]);
+      expect(
+        Array.from(TypedFastBitSet.intersectionSizes(base, facets)),
+      ).toEqual([3, 2, 2]);
+      // only the array facet is probed, the bitset one uses the word list
+      expect(probe.mock.contexts).toEqual([array]);
+
+      const sparseBase = new SparseTypedFastBitSet([6, 9, 2999, 40000000]);
+      expect(
+        Array.from(TypedFastBitSet.intersectionSizes(sparseBase, facets)),
+      ).toEqual([2, 2, 2]);
+      // the arrays are never converted to words
+      expect(words.mock.contexts).not.toContain(array);
+      expect(words.mock.contexts).not.toContain(sparseBase);
+    } finally {
+      words.mockRestore();
+      probe.mockRestore();
+    }
+  });
+});
@@ -19,6 +19,14 @@ describe("sparse biggest logic", () => {
     mb.flip(3);
     expect(mb.array()).toEqual([2, 0, 1]);
   });
+
+  it("Testing sparse flip after remove", () => {
+    const mb = new SparseTypedFastBitSet([0, 1, 2, 3]);
+    mb.remove(3);
+    mb.flip(3); // stale entry beyond the array size
+    expect(mb.array()).toEqual([3, 0, 1, 2]);
+    expect(mb.size()).toBe(4);
+  });
 });
 
 bitsetTest(({ name, build, arrayEqual }) => {
@@ -46,5 +54,39 @@ bitsetTest(({ name, build, arrayEqual }) => {
       arrayEqual(mb.array(), arr);
       expect(mb.size()).toBe(301);
     });
+
+    it("Testing flipRange", () => {
+      const mb = build([1, 40, 100]);
+      mb.flipRange(200, 100);
+      arrayEqual(mb.array(), [1, 40, 100]);
+
+      mb.flipRange(0, 3);
+      arrayEqual(mb.array(), [0, 2, 40, 100]);
+
+      mb.flipRange(30, 101);
+      const arr = [0, 2];
+      for (let i = 30; i < 100; i++) {
+        if (i !== 40) arr.push(i);
+      }
+      arrayEqual(mb.array(), arr);
+
+      mb.flipRange(30, 101);
+      arrayEqual(mb.array(), [0, 2, 40, 100]);
+
+      let step = 1; // check less as i grows
+      for (let i = 0; i < 200; ++i) {
+        if (i % 10) step++;
+        for (let j = i; j < 200; j += step) {
+          const bb = build([5, 64, 150]);
+          bb.flipRange(i, j);
+          for (let k = 0; k < 200 + 32; k += step) {
+            const inRange = k >= i && k < j;
+            expect(bb.has(k)).toBe(
+              (k === 5 || k === 64 || k === 150) !== inRange,
+            );
+          }
+        }
+      }
+    });
   });
 });
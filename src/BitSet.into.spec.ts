@@ -0,0 +1,66 @@
+import { SparseTypedFastBitSet } from "./SparseTypedFastBitSet";
+import { TypedFastBitSet } from "./TypedFastBitSet";
+
+describe("output-target operations", () => {
+  const values = (step: number, end: number) => {
+    const answer = [];
+    for (let v = 0; v < end; v += step) answer.push(v);
+    return answer;
+  };
+  const operations = [
+    ["union", "unionInto", "new_union"],
+    ["intersection", "intersectionInto", "new_intersection"],
+    ["difference", "differenceInto", "new_difference"],
+    ["change", "changeInto", "new_change"],
+  ] as const;
+
+  for (const [name, into, fresh] of operations) {
+    it(`Testing ${into}`, () => {
+      const a = new TypedFastBitSet(values(2, 3000));
+      const b = new TypedFastBitSet(values(3, 5000));
+      const sparse = new SparseTypedFastBitSet([1, 3, 2001, 7000]);
+      const out = new TypedFastBitSet(values(1, 10000)); // stale content
+      const buffer = out.words;
+      for (const [x, y] of [
+        [a, b],
+        [b, a],
+        [a, sparse],
+        [b, new TypedFastBitSet()],
+        [new TypedFastBitSet([5]), a],
+      ] as const) {
+        expect(x[into](y, out)).toBe(out);
+        expect(out.array()).toEqual(x[fresh](y).array());
+        expect(out.words).toBe(buffer); // large enough, reused
+      }
+      expect(a.array()).toEqual(values(2, 3000)); // operands unchanged
+      expect(b.array()).toEqual(values(3, 5000));
+
+      const small = new TypedFastBitSet();
+      a[into](b, small);
+      expect(small.array()).toEqual(a[fresh](b).array());
+      small.add(20000); // still a valid bitset
+      expect(small.has(20000)).toBe(true);
+    });
+
+    it(`Testing ${into} with aliasing`, () => {
+      const expected = new TypedFastBitSet(values(2, 3000))
+        [fresh](new TypedFastBitSet(values(3, 5000)))
+        .array();
+      let a = new TypedFastBitSet(values(2, 3000));
+      let b = new TypedFastBitSet(values(3, 5000));
+      a[into](b, a);
+      expect(a.array()).toEqual(expected);
+      a = new TypedFastBitSet(values(2, 3000));
+      b = new TypedFastBitSet(values(3, 5000));
+      a[into](b, b);
+      expect(b.array()).toEqual(expected);
+      a = new TypedFastBitSet(values(2, 3000));
+      a[into](a, a);
+      expect(a.array()).toEqual(
+        new TypedFastBitSet(values(2, 3000))
+          [name](new TypedFastBitSet(values(2, 3000)))
+          .array(),
+      );
+    });
+  }
+});
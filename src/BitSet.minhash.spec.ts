@@ -0,0 +1,79 @@
+import { LSHIndex, MinHash } from "./MinHash";
+import { SparseTypedFastBitSet } from "./SparseTypedFastBitSet";
+import { TypedFastBitSet } from "./TypedFastBitSet";
+
+describe("MinHash", () => {
+  it("Testing signatures", () => {
+    const minhash = new MinHash(64, 7);
+    const b = new TypedFastBitSet([1, 5, 100, 5000]);
+    const signature = minhash.signature(b);
+    expect(signature.length).toBe(64);
+    expect(minhash.signature(b)).toEqual(signature);
+    expect(new MinHash(64, 7).signature(b)).toEqual(signature);
+    expect(new MinHash(64, 8).signature(b)).not.toEqual(signature);
+    expect(
+      minhash.signature(new SparseTypedFastBitSet([5000, 100, 5, 1])),
+    ).toEqual(signature);
+
+    const empty = minhash.signature(new TypedFastBitSet());
+    expect(empty.every((v) => v === 0xffffffff)).toBe(true);
+    expect(MinHash.estimateJaccard(empty, empty)).toBe(1);
+    expect(MinHash.estimateJaccard(signature, empty)).toBe(0);
+  });
+
+  it("Testing estimated Jaccard", () => {
+    const minhash = new MinHash(256, 1);
+    const a = new TypedFastBitSet();
+    a.addRange(0, 400);
+    for (const [start, end] of [
+      [0, 400],
+      [40, 440],
+      [200, 600],
+      [360, 800],
+      [800, 1200],
+    ]) {
+      const b = new TypedFastBitSet();
+      b.addRange(start, end);
+      const estimate = MinHash.estimateJaccard(
+        minhash.signature(a),
+        minhash.signature(b),
+      );
+      expect(Math.abs(estimate - a.jaccard(b))).toBeLessThan(0.1);
+    }
+  });
+});
+
+describe("LSHIndex", () => {
+  it("Testing candidates", () => {
+    const minhash = new MinHash(128, 3);
+    const index = new LSHIndex(32, 4);
+    const bitsets = [];
+    for (let i = 0; i < 50; i++) {
+      const b = new TypedFastBitSet();
+      b.addRange(i * 1000, i * 1000 + 200);
+      bitsets.push(b);
+      index.add(i, minhash.signature(b));
+    }
+    expect(index.size()).toBe(50);
+
+    // a near duplicate of bitset 17
+    const query = bitsets[17].clone();
+    query.removeRange(17000, 17005);
+    query.addRange(17200, 17205);
+    expect(index.query(minhash.signature(query))).toEqual([17]);
+
+    const unrelated = new TypedFastBitSet();
+    unrelated.addRange(100000, 100200);
+    expect(index.query(minhash.signature(unrelated))).toEqual([]);
+
+    index.add(99, minhash.signature(query));
+    expect(index.query(minhash.signature(bitsets[17]))).toEqual([17, 99]);
+  });
+
+  it("Testing signature length", () => {
+    const index = new LSHIndex(8, 4);
+    expect(() => index.add(1, new Uint32Array(31))).toThrow(RangeError);
+    expect(() => index.query(new Uint32Array(16))).toThrow(RangeError);
+    expect(index.query(new Uint32Array(64))).toEqual([]);
+  });
+});
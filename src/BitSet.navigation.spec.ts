@@ -0,0 +1,105 @@
+import { bitsetTest } from "./testUtils";
+import { SparseTypedFastBitSet } from "./SparseTypedFastBitSet";
+
+describe("sparse biggest logic", () => {
+  it("Testing sparse max", () => {
+    const mb = new SparseTypedFastBitSet([3, 100, 7]);
+    expect(mb.max()).toBe(100);
+    mb.remove(100);
+    expect(mb.max()).toBe(7);
+    mb.removeRange(0, 10);
+    expect(mb.max()).toBe(-1);
+  });
+});
+
+bitsetTest(({ name, build }) => {
+  describe(name, () => {
+    it("Testing nextSetBit/previousSetBit", () => {
+      const mb = build([0, 31, 32, 100, 1000]);
+      expect(mb.nextSetBit(-5)).toBe(0);
+      expect(mb.nextSetBit(0)).toBe(0);
+      expect(mb.nextSetBit(1)).toBe(31);
+      expect(mb.nextSetBit(32)).toBe(32);
+      expect(mb.nextSetBit(33)).toBe(100);
+      expect(mb.nextSetBit(101)).toBe(1000);
+      expect(mb.nextSetBit(1001)).toBe(-1);
+      expect(mb.nextSetBit(100000)).toBe(-1);
+
+      expect(mb.previousSetBit(-1)).toBe(-1);
+      expect(mb.previousSetBit(0)).toBe(0);
+      expect(mb.previousSetBit(30)).toBe(0);
+      expect(mb.previousSetBit(31)).toBe(31);
+      expect(mb.previousSetBit(99)).toBe(32);
+      expect(mb.previousSetBit(999)).toBe(100);
+      expect(mb.previousSetBit(1000)).toBe(1000);
+      expect(mb.previousSetBit(100000)).toBe(1000);
+
+      const empty = build();
+      expect(empty.nextSetBit(0)).toBe(-1);
+      expect(empty.previousSetBit(100)).toBe(-1);
+    });
+
+    it("Testing nextClearBit/previousClearBit", () => {
+      const mb = build([0, 1, 2, 40]);
+      mb.addRange(64, 128);
+      expect(mb.nextClearBit(-1)).toBe(3);
+      expect(mb.nextClearBit(0)).toBe(3);
+      expect(mb.nextClearBit(3)).toBe(3);
+      expect(mb.nextClearBit(40)).toBe(41);
+      expect(mb.nextClearBit(64)).toBe(128);
+      expect(mb.nextClearBit(100000)).toBe(100000);
+
+      expect(mb.previousClearBit(-1)).toBe(-1);
+      expect(mb.previousClearBit(2)).toBe(-1);
+      expect(mb.previousClearBit(3)).toBe(3);
+      expect(mb.previousClearBit(40)).toBe(39);
+      expect(mb.previousClearBit(127)).toBe(63);
+      expect(mb.previousClearBit(128)).toBe(128);
+      expect(mb.previousClearBit(100000)).toBe(100000);
+
+      const full = build();
+      full.addRange(0, 64);
+      expect(full.nextClearBit(0)).toBe(64);
+      expect(full.previousClearBit(63)).toBe(-1);
+    });
+
+    it("Testing min/max", () => {
+      const mb = build();
+      expect(mb.min()).toBe(-1);
+      expect(mb.max()).toBe(-1);
+      mb.add(77);
+      expect(mb.min()).toBe(77);
+      expect(mb.max()).toBe(77);
+      mb.add(5);
+      mb.add(3000);
+      expect(mb.min()).toBe(5);
+      expect(mb.max()).toBe(3000);
+      mb.addRange(10, 2000);
+      expect(mb.min()).toBe(5);
+      expect(mb.max()).toBe(3000);
+      mb.remove(3000);
+      expect(mb.max()).toBe(1999);
+    });
+
+    it("Testing navigation against has", () => {
+      const mb = build();
+      for (let i = 0; i < 600; i += 11) {
+        mb.addRange(i, i + 3);
+      }
+      for (let i = 0; i < 700; i++) {
+        let next = i;
+        while (next < 700 && !mb.has(next)) next++;
+        expect(mb.nextSetBit(i)).toBe(next < 700 ? next : -1);
+        let previous = i;
+        while (previous >= 0 && !mb.has(previous)) previous--;
+        expect(mb.previousSetBit(i)).toBe(previous);
+        let nextClear = i;
+        while (mb.has(nextClear)) nextClear++;
+        expect(mb.nextClearBit(i)).toBe(nextClear);
+        let previousClear = i;
+        while (previousClear >= 0 && mb.has(previousClear)) previousClear--;
+        expect(mb.previousClearBit(i)).toBe(previousClear);
+      }
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { BitSetPool, PooledBitSet } from "./BitSetPool";
+import { TypedFastBitSet } from "./TypedFastBitSet";
+
+describe("BitSetPool", () => {
+  it("Testing acquire and release", () => {
+    const pool = new BitSetPool();
+    const a = pool.acquire(1000);
+    expect(a).toBeInstanceOf(TypedFastBitSet);
+    expect(a.isEmpty()).toBe(true);
+    expect(a.words.length).toBe(32);
+    a.addRange(10, 900);
+    const buffer = a.words;
+    a.release();
+    expect(a.isEmpty()).toBe(true);
+    a.release(); // no effect
+    expect(pool.stats()).toEqual({
+      hits: 0,
+      misses: 1,
+      released: 1,
+      discarded: 0,
+    });
+
+    const b = pool.acquire(1024); // same bucket
+    expect(b.words).toBe(buffer);
+    expect(b.isEmpty()).toBe(true);
+    expect(Array.from(b.words).every((w) => w === 0)).toBe(true);
+    b.add(5);
+    expect(b.array()).toEqual([5]);
+
+    a.add(7); // a released bitset no longer shares the buffer
+    expect(b.array()).toEqual([5]);
+    expect(a.array()).toEqual([7]);
+
+    pool.release(b);
+    const c = pool.acquire(2000); // larger bucket
+    expect(c.words).not.toBe(buffer);
+    expect(c.words.length).toBe(64);
+    expect(pool.acquire(1).words.length).toBe(8);
+    expect(pool.stats()).toEqual({
+      hits: 1,
+      misses: 3,
+      released: 2,
+      discarded: 0,
+    });
+  });
+
+  it("Testing grown buffers and full buckets", () => {
+    const pool = new BitSetPool({ maxPerBucket: 2 });
+    const grown = pool.acquire(256);
+    grown.add(10000); // reallocated beyond its bucket
+    const buffer = grown.words;
+    expect(buffer.length).toBeGreaterThan(1024);
+    grown.release();
+    const again = pool.acquire(1024 * 32); // the largest bucket it fills
+    expect(again.words).toBe(buffer);
+    expect(again.isEmpty()).toBe(true);
+    again.release();
+
+    const sets = [pool.acquire(), pool.acquire(), pool.acquire()];
+    sets.forEach((set) => set.release());
+    expect(pool.stats()).toEqual({
+      hits: 1,
+      misses: 4,
+      released: 4,
+      discarded: 1,
+    });
+  });
+
+  it("Testing Symbol.dispose", () => {
+    const symbol = Object.getOwnPropertyDescriptor(Symbol, "dispose");
+    // the module does not polyfill the symbol
+    expect(Object.getOwnPropertyNames(PooledBitSet.prototype)).not.toContain(
+      "undefined",
+    );
+    if (symbol === undefined) {
+      Object.defineProperty(Symbol, "dispose", {
+        value: Symbol("Symbol.dispose"),
+        configurable: true,
+      });
+    }
+    try {
+      jest.isolateModules(() => {
+        // loaded after the polyfill of the application
+        const { BitSetPool } = require("./BitSetPool");
+        const pool = new BitSetPool();
+        const buffer = (() => {
+          using scratch = pool.acquire(500);
+          scratch.add(3);
+          return scratch.words;
+        })();
+        expect(pool.stats().released).toBe(1);
+        expect(pool.acquire(500).words).toBe(buffer);
+      });
+    } finally {
+      if (symbol === undefined) {
+        delete (Symbol as { dispose?: symbol }).dispose;
+      }
+    }
+  });
+});
@@ -0,0 +1,173 @@
+import { evaluateQuery, parseQuery } from "./BitSetQuery";
+import { SparseTypedFastBitSet } from "./SparseTypedFastBitSet";
+import { TypedFastBitSet } from "./TypedFastBitSet";
+import { BitSet } from "./utils";
+
+const multiples = (step: number, end: number) => {
+  const values = [];
+  for (let v = 0; v < end; v += step) values.push(v);
+  return values;
+};
+
+const registry = (): Record<string, BitSet> => ({
+  premium: new TypedFastBitSet(multiples(2, 3000)),
+  active: new SparseTypedFastBitSet(multiples(3, 2000)),
+  trial: new TypedFastBitSet(multiples(5, 4000)),
+  churned: new SparseTypedFastBitSet([0, 10, 15, 30, 3995]),
+  nobody: new TypedFastBitSet(),
+});
+
+const sorted = (b: BitSet) => b.array().sort((x, y) => x - y);
+
+const expected = (
+  names: Record<string, BitSet>,
+  predicate: (has: (name: string) => boolean) => boolean,
+  end = 4000,
+) => {
+  const values = [];
+  for (let v = 0; v < end; v++) {
+    if (predicate((name) => names[name].has(v))) values.push(v);
+  }
+  return values;
+};
+
+describe("BitSetQuery", () => {
+  it("Testing parseQuery", () => {
+    expect(parseQuery("a")).toEqual({ type: "name", name: "a" });
+    expect(parseQuery("a and not b OR c")).toEqual({
+      type: "or",
+      operands: [
+        {
+          type: "and",
+          operands: [
+            { type: "name", name: "a" },
+            { type: "not", operand: { type: "name", name: "b" } },
+          ],
+        },
+        { type: "name", name: "c" },
+      ],
+    });
+    expect(parseQuery("(a OR b) AND (c)")).toEqual({
+      type: "and",
+      operands: [
+        {
+          type: "or",
+          operands: [
+            { type: "name", name: "a" },
+            { type: "name", name: "b" },
+          ],
+        },
+        { type: "name", name: "c" },
+      ],
+    });
+    expect(parseQuery("a AND b AND team-1.users:x")).toEqual({
+      type: "and",
+      operands: [
+        { type: "name", name: "a" },
+        { type: "name", name: "b" },
+        { type: "name", name: "team-1.users:x" },
+      ],
+    });
+    for (const bad of [
+      "",
+      "a AND",
+      "(a",
+      "a)",
+      "a b",
+      "AND a",
+      "a & b",
+      "()",
+    ]) {
+      expect(() => parseQuery(bad)).toThrow(SyntaxError);
+    }
+  });
+
+  it("Testing evaluateQuery", () => {
+    const names = registry();
+    const before = Object.keys(names).map((name) => sorted(names[name]));
+    const cases: [string, (has: (name: string) => boolean) => boolean][] = [
+      [
+        "(premium AND active) OR (trial AND NOT churned)",
+        (has) =>
+          (has("premium") && has("active")) ||
+          (has("trial") && !has("churned")),
+      ],
+      ["premium", (has) => has("premium")],
+      [
+        "trial AND premium AND active",
+        (has) => has("trial") && has("premium") && has("active"),
+      ],
+      ["premium OR active OR nobody", (has) => has("premium") || has("active")],
+      ["premium AND nobody", () => false],
+      [
+        "active AND NOT premium AND NOT trial",
+        (has) => has("active") && !has("premium") && !has("trial"),
+      ],
+      [
+        "churned AND NOT (premium OR active)",
+        (has) => has("churned") && !has("premium") && !has("active"),
+      ],
+      [
+        "premium AND (active OR (trial AND NOT churned))",
+        (has) =>
+          has("premium") &&
+          (has("active") || (has("trial") && !has("churned"))),
+      ],
+      ["churned AND churned", (has) => has("churned")],
+    ];
+    for (const [query, predicate] of cases) {
+      const answer = evaluateQuery(query, names);
+      expect(sorted(answer)).toEqual(expected(names, predicate));
+      expect(
+        sorted(
+          evaluateQuery(parseQuery(query), new Map(Object.entries(names))),
+        ),
+      ).toEqual(sorted(answer));
+      answer.add(5000); // the answer is never a bitset of the registry
+    }
+    expect(Object.keys(names).map((name) => sorted(names[name]))).toEqual(
+      before,
+    );
+  });
+
+  it("Testing NOT outside of an AND", () => {
+    const names = registry();
+    const options = { universeSize: 4100 };
+    expect(sorted(evaluateQuery("NOT premium", names, options))).toEqual(
+      expected(names, (has) => !has("premium"), 4100),
+    );
+    expect(
+      sorted(
+        evaluateQuery("churned OR NOT (premium OR trial)", names, options),
+      ),
+    ).toEqual(
+      expected(
+        names,
+        (has) => has("churned") || !(has("premium") || has("trial")),
+        4100,
+      ),
+    );
+    expect(
+      sorted(evaluateQuery("NOT active AND NOT premium", names, options)),
+    ).toEqual(
+      expected(names, (has) => !has("active") && !has("premium"), 4100),
+    );
+    expect(() => evaluateQuery("NOT premium", names)).toThrow(RangeError);
+    expect(() => evaluateQuery("active OR NOT premium", names)).toThrow(
+      RangeError,
+    );
+  });
+
+  it("Testing unknown names", () => {
+    const names = registry();
+    expect(() => evaluateQuery("premium AND unknown", names)).toThrow(
+      ReferenceError,
+    );
+    // the empty operand would short-circuit the evaluation
+    expect(() =>
+      evaluateQuery("nobody AND (unknown OR premium)", names),
+    ).toThrow(ReferenceError);
+    expect(() => evaluateQuery("toString", names)).toThrow(ReferenceError);
+    expect(() => evaluateQuery("premium AND", names)).toThrow(SyntaxError);
+  });
+});
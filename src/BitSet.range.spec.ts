@@ -45,10 +45,87 @@ describe("fixed bitset logic", () => {
     expect(b1.hasAnyInRange(197, 200)).toBe(true); // end
     expect(b1.hasAnyInRange(199, 210)).toBe(true); // across end
   });
+
+  it("Testing has any in range spanning three words", () => {
+    const b1 = new TypedFastBitSet([40]);
+    b1.resize(200);
+    expect(b1.hasAnyInRange(0, 96)).toBe(true); // middle word
+    expect(b1.hasAnyInRange(0, 128)).toBe(true);
+    b1.remove(40);
+    expect(b1.hasAnyInRange(0, 128)).toBe(false);
+  });
+
+  it("Testing range at capacity boundary", () => {
+    const b1 = new TypedFastBitSet();
+    b1.addRange(0, 64);
+    expect(b1.words.length).toBeGreaterThan(2); // overallocated buffer
+    expect(b1.hasAnyInRange(63, 64)).toBe(true);
+    expect(b1.hasAllInRange(0, 64)).toBe(true);
+    expect(b1.hasAllInRange(0, 65)).toBe(false);
+    expect(b1.countRange(0, 1000)).toBe(64);
+    b1.removeRange(63, 64); // last allocated bit
+    expect(b1.has(63)).toBe(false);
+    expect(b1.size()).toBe(63);
+  });
 });
 
 bitsetTest(({ name, build, arrayEqual }) => {
   describe(name, () => {
+    it("Testing range queries", () => {
+      const b1 = build([0, 31, 32, 63, 64, 100]);
+      b1.addRange(200, 300);
+
+      expect(b1.countRange(0, 1)).toBe(1);
+      expect(b1.countRange(-10, 32)).toBe(2);
+      expect(b1.countRange(31, 33)).toBe(2);
+      expect(b1.countRange(0, 65)).toBe(5);
+      expect(b1.countRange(0, 100)).toBe(5);
+      expect(b1.countRange(0, 101)).toBe(6);
+      expect(b1.countRange(150, 1000)).toBe(100);
+      expect(b1.countRange(250, 100000)).toBe(50);
+      expect(b1.countRange(300, 100000)).toBe(0);
+      expect(b1.countRange(50, 10)).toBe(0);
+
+      expect(b1.hasAnyInRange(1, 31)).toBe(false);
+      expect(b1.hasAnyInRange(1, 32)).toBe(true);
+      expect(b1.hasAnyInRange(101, 200)).toBe(false);
+      expect(b1.hasAnyInRange(101, 201)).toBe(true);
+      expect(b1.hasAnyInRange(300, 100000)).toBe(false);
+      expect(b1.hasAnyInRange(50, 10)).toBe(false);
+
+      expect(b1.isRangeEmpty(1, 31)).toBe(true);
+      expect(b1.isRangeEmpty(0, 31)).toBe(false);
+      expect(b1.isRangeEmpty(50, 10)).toBe(true);
+
+      expect(b1.hasAllInRange(200, 300)).toBe(true);
+      expect(b1.hasAllInRange(210, 220)).toBe(true);
+      expect(b1.hasAllInRange(199, 300)).toBe(false);
+      expect(b1.hasAllInRange(200, 301)).toBe(false);
+      expect(b1.hasAllInRange(31, 33)).toBe(true);
+      expect(b1.hasAllInRange(31, 34)).toBe(false);
+      expect(b1.hasAllInRange(50, 10)).toBe(true);
+      expect(b1.hasAllInRange(1000, 2000)).toBe(false);
+    });
+
+    it("Testing range queries against has", () => {
+      const b1 = build();
+      for (let i = 0; i < 300; i += 9) {
+        b1.addRange(i, i + 5);
+      }
+      for (let start = 0; start < 310; start += 3) {
+        for (let end = start; end < 320; end += 7) {
+          let count = 0;
+          for (let i = start; i < end; i++) {
+            if (b1.has(i)) count++;
+          }
+          expect(b1.countRange(start, end)).toBe(count);
+          expect(b1.hasAnyInRange(start, end)).toBe(count > 0);
+          expect(b1.isRangeEmpty(start, end)).toBe(count === 0);
+          expect(b1.hasAllInRange(start, end)).toBe(count === end - start);
+        }
+      }
+    });
+
     it("Testing add Range", () => {
       const b1 = build();
 
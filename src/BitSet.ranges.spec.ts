@@ -0,0 +1,68 @@
+import { bitsetTest } from "./testUtils";
+import { SparseTypedFastBitSet } from "./SparseTypedFastBitSet";
+import { TypedFastBitSet } from "./TypedFastBitSet";
+
+describe("fromRanges", () => {
+  it("Testing fromRanges", () => {
+    const ranges: [number, number][] = [
+      [0, 3],
+      [31, 65],
+      [100, 101],
+      [50, 70],
+      [200, 200],
+    ];
+    const expected = [0, 1, 2, 100];
+    for (let i = 31; i < 70; i++) expected.push(i);
+    expected.sort((a, b) => a - b);
+
+    expect(TypedFastBitSet.fromRanges(ranges).array()).toEqual(expected);
+    expect(
+      SparseTypedFastBitSet.fromRanges(ranges)
+        .array()
+        .sort((a, b) => a - b),
+    ).toEqual(expected);
+    expect(TypedFastBitSet.fromRanges([]).isEmpty()).toBe(true);
+  });
+});
+
+bitsetTest(({ name, build }) => {
+  describe(name, () => {
+    it("Testing ranges", () => {
+      expect([...build().ranges()]).toEqual([]);
+
+      const mb = build([5, 0, 1, 2, 31, 32, 33, 63, 64, 1000]);
+      expect([...mb.ranges()]).toEqual([
+        [0, 3],
+        [5, 6],
+        [31, 34],
+        [63, 65],
+        [1000, 1001],
+      ]);
+
+      mb.addRange(100, 900);
+      expect([...mb.ranges()]).toEqual([
+        [0, 3],
+        [5, 6],
+        [31, 34],
+        [63, 65],
+        [100, 900],
+        [1000, 1001],
+      ]);
+    });
+
+    it("Testing ranges round trip", () => {
+      const mb = build();
+      for (let i = 0; i < 2000; i += 37) {
+        mb.addRange(i, i + (i % 29));
+      }
+      const copy = build();
+      for (const [start, end] of mb.ranges()) {
+        expect(start).toBeLessThan(end);
+        expect(mb.has(start - 1)).toBe(false);
+        expect(mb.has(end)).toBe(false);
+        copy.addRange(start, end);
+      }
+      expect(copy.equals(mb)).toBe(true);
+    });
+  });
+});
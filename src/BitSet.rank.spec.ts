@@ -0,0 +1,47 @@
+import { bitsetTest } from "./testUtils";
+
+bitsetTest(({ name, build }) => {
+  describe(name, () => {
+    it("Testing rank", () => {
+      const mb = build([0, 5, 31, 32, 63, 64, 200]);
+      expect(mb.rank(-1)).toBe(0);
+      expect(mb.rank(0)).toBe(0);
+      expect(mb.rank(1)).toBe(1);
+      expect(mb.rank(5)).toBe(1);
+      expect(mb.rank(6)).toBe(2);
+      expect(mb.rank(32)).toBe(3); // word boundary
+      expect(mb.rank(33)).toBe(4);
+      expect(mb.rank(64)).toBe(5);
+      expect(mb.rank(200)).toBe(6);
+      expect(mb.rank(201)).toBe(7);
+      expect(mb.rank(100000)).toBe(7); // beyond capacity
+    });
+
+    it("Testing select", () => {
+      const a = [0, 5, 31, 32, 63, 64, 200];
+      const mb = build(a);
+      for (let k = 0; k < a.length; k++) {
+        expect(mb.select(k)).toBe(a[k]);
+      }
+      expect(mb.select(-1)).toBe(-1);
+      expect(mb.select(a.length)).toBe(-1);
+      expect(build().select(0)).toBe(-1);
+    });
+
+    it("Testing rank/select against array", () => {
+      const mb = build();
+      for (let i = 0; i < 5000; i += 7) {
+        mb.add(i);
+      }
+      mb.addRange(6000, 6100);
+      const a = mb.array().sort((x, y) => x - y);
+      for (let k = 0; k < a.length; k++) {
+        expect(mb.select(k)).toBe(a[k]);
+        expect(mb.rank(a[k])).toBe(k);
+        expect(mb.rank(a[k] + 1)).toBe(k + 1);
+      }
+      expect(mb.select(a.length)).toBe(-1);
+      expect(mb.rank(7000)).toBe(a.length);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { RankSelectIndex } from "./RankSelectIndex";
+import { SparseTypedFastBitSet } from "./SparseTypedFastBitSet";
+import { TypedFastBitSet } from "./TypedFastBitSet";
+
+const checkIndex = (index: RankSelectIndex, bitset: TypedFastBitSet) => {
+  const a = bitset.array();
+  expect(index.size()).toBe(a.length);
+  for (let k = 0; k < a.length; k++) {
+    expect(index.select(k)).toBe(a[k]);
+    expect(index.rank(a[k])).toBe(k);
+    expect(index.rank(a[k] + 1)).toBe(k + 1);
+  }
+  expect(index.select(a.length)).toBe(-1);
+  expect(index.select(-1)).toBe(-1);
+  expect(index.rank((bitset.words.length << 5) + 100)).toBe(a.length);
+};
+
+describe("RankSelectIndex", () => {
+  it("Testing rank/select", () => {
+    const b = new TypedFastBitSet();
+    for (let i = 0; i < 3000; i += 13) {
+      b.add(i);
+    }
+    b.addRange(4000, 4500);
+    const index = new RankSelectIndex(b);
+    checkIndex(index, b);
+    for (let i = 0; i < 5000; i += 17) {
+      expect(index.rank(i)).toBe(b.rank(i));
+    }
+  });
+
+  it("Testing empty bitset", () => {
+    const index = new RankSelectIndex(new TypedFastBitSet());
+    expect(index.size()).toBe(0);
+    expect(index.rank(10)).toBe(0);
+    expect(index.select(0)).toBe(-1);
+  });
+
+  it("Testing incremental updates", () => {
+    const b = new TypedFastBitSet([1, 2, 300]);
+    const index = new RankSelectIndex(b);
+    checkIndex(index, b);
+
+    index.add(5);
+    index.add(5); // already present
+    index.remove(2);
+    index.remove(1000); // not present
+    index.flip(299);
+    index.flip(300);
+    checkIndex(index, b);
+    expect(b.array()).toEqual([1, 5, 299]);
+
+    // growing the bitset through the index
+    index.add(10000);
+    index.add(20000);
+    checkIndex(index, b);
+    index.remove(10000);
+    checkIndex(index, b);
+  });
+
+  it("Testing invalidation after bulk operations", () => {
+    const b = new TypedFastBitSet([1, 2, 3]);
+    const index = new RankSelectIndex(b);
+    checkIndex(index, b);
+
+    b.addRange(100, 200);
+    checkIndex(index, b);
+
+    b.union(new TypedFastBitSet([50000]));
+    checkIndex(index, b); // buffer reallocation is detected
+
+    b.clear();
+    checkIndex(index, b);
+  });
+
+  it("Testing bulk operations within the capacity", () => {
+    const b = new TypedFastBitSet([1, 5, 1000]);
+    const index = new RankSelectIndex(b);
+    checkIndex(index, b);
+
+    b.addRange(10, 20); // no reallocation
+    expect(index.rank(1001)).toBe(13);
+    expect(index.select(2)).toBe(10);
+    checkIndex(index, b);
+
+    b.add(7);
+    index.add(8); // the direct b.add(7) is not lost
+    checkIndex(index, b);
+    b.union(new TypedFastBitSet([30, 31]));
+    b.remove(1000);
+    checkIndex(index, b);
+    b.intersection(new TypedFastBitSet([1, 5, 30]));
+    checkIndex(index, b);
+
+    b.words[0] |= 1 << 2; // direct write, needs invalidate
+    index.invalidate();
+    checkIndex(index, b);
+  });
+
+  it("Testing difference2 into the indexed bitset", () => {
+    const b = new TypedFastBitSet([1, 2, 3, 40, 50, 60, 200]);
+    const index = new RankSelectIndex(b);
+    expect(index.rank(1000)).toBe(7);
+    new TypedFastBitSet([2, 40, 200]).difference2(b);
+    checkIndex(index, b);
+    expect(index.size()).toBe(0);
+
+    b.addRange(0, 100);
+    checkIndex(index, b);
+    new SparseTypedFastBitSet([1, 3]).difference2(b);
+    checkIndex(index, b);
+    expect(b.array()).toEqual([]);
+  });
+
+  it("Testing select after a direct write without invalidate", () => {
+    const b = new TypedFastBitSet([1, 2, 3, 300]);
+    const index = new RankSelectIndex(b);
+    expect(index.select(3)).toBe(300);
+    b.words[9] = 0; // removes 300 behind the back of the index
+    expect(index.select(3)).toBe(-1); // rebuilt, no longer loops
+    expect(index.size()).toBe(3);
+    b.words[0] |= 1; // adds 0
+    index.invalidate();
+    checkIndex(index, b);
+  });
+});
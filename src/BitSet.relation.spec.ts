@@ -0,0 +1,83 @@
+import { bitsetTest } from "./testUtils";
+import { SparseTypedFastBitSet } from "./SparseTypedFastBitSet";
+import { TypedFastBitSet } from "./TypedFastBitSet";
+import { BitSet, BitSetRelation } from "./utils";
+
+const others = (values: number[]): BitSet[] => {
+  const dense = new SparseTypedFastBitSet();
+  dense.addRange(3000, 5000); // switches to a bitset
+  dense.removeRange(3000, 5000);
+  for (const value of values) dense.add(value);
+  const typed = new TypedFastBitSet(values);
+  typed.resize(10000); // longer logical length
+  return [
+    new TypedFastBitSet(values),
+    typed,
+    new SparseTypedFastBitSet(values),
+    dense,
+  ];
+};
+
+bitsetTest(({ name, build }) => {
+  describe(name, () => {
+    it("Testing relationTo and predicates", () => {
+      const a = [1, 5, 31, 32, 100, 1000];
+      const cases: [number[], BitSetRelation][] = [
+        [a, BitSetRelation.EQUAL],
+        [[...a, 2000], BitSetRelation.SUBSET],
+        [[...a, 2], BitSetRelation.SUBSET],
+        [[1, 5, 1000], BitSetRelation.SUPERSET],
+        [[], BitSetRelation.SUPERSET],
+        [[0, 2, 33, 2000], BitSetRelation.DISJOINT],
+        [[1, 2], BitSetRelation.OVERLAP],
+        [[1000, 2000], BitSetRelation.OVERLAP],
+      ];
+      for (const [values, relation] of cases) {
+        for (const other of others(values)) {
+          const mb = build(a);
+          expect(mb.relationTo(other)).toBe(relation);
+          expect(mb.isSubsetOf(other)).toBe(
+            relation === BitSetRelation.EQUAL ||
+              relation === BitSetRelation.SUBSET,
+          );
+          expect(mb.isProperSubsetOf(other)).toBe(
+            relation === BitSetRelation.SUBSET,
+          );
+          expect(mb.isSupersetOf(other)).toBe(
+            relation === BitSetRelation.EQUAL ||
+              relation === BitSetRelation.SUPERSET,
+          );
+          expect(mb.isDisjointFrom(other)).toBe(
+            relation === BitSetRelation.DISJOINT || values.length === 0,
+          );
+        }
+      }
+    });
+
+    it("Testing relationTo with empty bitsets", () => {
+      const empty = build();
+      expect(empty.relationTo(build())).toBe(BitSetRelation.EQUAL);
+      expect(empty.relationTo(build([3]))).toBe(BitSetRelation.SUBSET);
+      expect(empty.isSubsetOf(build([3]))).toBe(true);
+      expect(empty.isDisjointFrom(build([3]))).toBe(true);
+
+      const cleared = build([5000]);
+      cleared.remove(5000); // longer logical length, no value
+      expect(cleared.relationTo(empty)).toBe(BitSetRelation.EQUAL);
+      expect(cleared.isProperSubsetOf(empty)).toBe(false);
+    });
+
+    it("Testing relationTo on dense bitsets", () => {
+      const mb = build();
+      mb.addRange(0, 4000);
+      const other = build();
+      other.addRange(100, 4000);
+      expect(mb.relationTo(other)).toBe(BitSetRelation.SUPERSET);
+      expect(other.relationTo(mb)).toBe(BitSetRelation.SUBSET);
+      other.add(5000);
+      expect(mb.relationTo(other)).toBe(BitSetRelation.OVERLAP);
+      mb.removeRange(100, 4000);
+      expect(mb.relationTo(other)).toBe(BitSetRelation.DISJOINT);
+    });
+  });
+});
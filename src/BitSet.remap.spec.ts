@@ -0,0 +1,133 @@
+import { bitsetTest } from "./testUtils";
+import { SparseTypedFastBitSet } from "./SparseTypedFastBitSet";
+import { TypedFastBitSet } from "./TypedFastBitSet";
+
+bitsetTest(({ name, build, arrayEqual }) => {
+  describe(name, () => {
+    it("Testing remap with a permutation", () => {
+      const permutation = new Uint32Array(100);
+      for (let i = 0; i < 100; i++) permutation[i] = (i * 37) % 100;
+      const values = [0, 1, 2, 31, 32, 50, 99];
+      const mb = build(values);
+      arrayEqual(
+        mb.remap(permutation).array(),
+        values.map((x) => permutation[x]).sort((x, y) => x - y),
+      );
+      arrayEqual(mb.array(), values); // unchanged
+      expect(build().remap(permutation).isEmpty()).toBe(true);
+    });
+
+    it("Testing remap with a monotone function", () => {
+      const mb = build();
+      for (let i = 0; i < 3000; i += 7) mb.add(i);
+      const expected = mb.array().map((x) => x * 2 + 5);
+      const monotone = mb.remap((x) => x * 2 + 5, true);
+      arrayEqual(monotone.array(), expected);
+      // sized from the image of the largest value, 2996 * 2 + 5
+      expect(monotone.words.length).toBe((5997 + 32) >>> 5);
+      arrayEqual(mb.remap((x) => x * 2 + 5).array(), expected);
+      expect(
+        build()
+          .remap((x) => x, true)
+          .isEmpty(),
+      ).toBe(true);
+
+      // negative values are dropped
+      arrayEqual(
+        build([1, 2, 3, 40])
+          .remap((x) => (x % 2 === 0 ? x / 2 : -1))
+          .array(),
+        [1, 20],
+      );
+    });
+
+    it("Testing monotone remap dropping the largest values", () => {
+      const mb = build([5, 6, 3000]);
+      for (let i = 0; i < 3000; i += 7) mb.add(i);
+      const dropped = mb.remap((x) => x - 4000, true);
+      expect(dropped.isEmpty()).toBe(true);
+      expect(dropped.words.length).toBeLessThan(1000);
+
+      // a mapping shorter than the values drops the values beyond its end
+      const identity = new Uint32Array(100);
+      for (let i = 0; i < 100; i++) identity[i] = i;
+      const expected = mb.remap(identity).array();
+      expect(expected.length).toBeGreaterThan(0);
+      arrayEqual(mb.remap(identity, true).array(), expected);
+      arrayEqual(mb.remap((x) => (x < 100 ? x : -1), true).array(), expected);
+    });
+
+    it("Testing compactAgainst", () => {
+      const alive = [];
+      for (let i = 0; i < 2000; i++) {
+        if (i % 3 !== 0 || i > 1500) alive.push(i);
+      }
+      const values = [];
+      for (let i = 0; i < 2100; i += 5) values.push(i);
+      const mb = build(values);
+      for (const mask of [
+        new TypedFastBitSet(alive),
+        new SparseTypedFastBitSet(alive),
+        new SparseTypedFastBitSet([1, 5, 6, 10, 2095]),
+      ]) {
+        const maskValues = mask.array().sort((x, y) => x - y);
+        const expected = [];
+        for (let rank = 0; rank < maskValues.length; rank++) {
+          if (mb.has(maskValues[rank])) expected.push(rank);
+        }
+        arrayEqual(mb.compactAgainst(mask).array(), expected);
+      }
+
+      const small = build([3, 5, 64, 65]);
+      arrayEqual(
+        small.compactAgainst(build([0, 3, 4, 5, 65])).array(),
+        [1, 3, 4],
+      );
+      expect(small.compactAgainst(build()).isEmpty()).toBe(true);
+    });
+
+    it("Testing project/expand", () => {
+      const visible = [];
+      for (let i = 0; i < 3000; i++) {
+        if (i % 7 === 1 || i % 5 === 0 || (i >= 1000 && i < 1200)) {
+          visible.push(i);
+        }
+      }
+      for (const mask of [
+        new TypedFastBitSet(visible),
+        new SparseTypedFastBitSet(visible),
+        new SparseTypedFastBitSet([3, 4, 40, 77, 2500]),
+      ]) {
+        const maskValues = mask.array().sort((x, y) => x - y);
+        // a filter computed over the visible rows only
+        const filter = build();
+        for (let i = 0; i < maskValues.length; i += 3) filter.add(i);
+        filter.add(maskValues.length + 10); // beyond the mask
+
+        const rows = filter.expand(mask);
+        arrayEqual(
+          rows.array(),
+          maskValues.filter((x, rank) => rank % 3 === 0),
+        );
+        expect(
+          rows.project(mask).equals(filter.clip(0, maskValues.length)),
+        ).toBe(true);
+        expect(rows.compactAgainst(mask).equals(rows.project(mask))).toBe(true);
+      }
+
+      arrayEqual(
+        build([0, 1, 3])
+          .expand(build([2, 40, 41, 64, 100]))
+          .array(),
+        [2, 40, 64],
+      );
+      arrayEqual(
+        build([2, 40, 64, 99])
+          .project(build([2, 40, 41, 64, 100]))
+          .array(),
+        [0, 1, 3],
+      );
+      expect(build([1, 2]).expand(build()).isEmpty()).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { bitsetTest } from "./testUtils";
+
+bitsetTest(({ name, build, arrayEqual }) => {
+  describe(name, () => {
+    it("Testing shiftLeft/shiftRight against has", () => {
+      const a = [0, 1, 5, 31, 32, 33, 63, 64, 100, 127, 500, 1000];
+      const dense = [];
+      for (let i = 0; i < 3000; i += 3) dense.push(i);
+      for (const values of [a, dense]) {
+        for (const n of [0, 1, 5, 31, 32, 33, 64, 70, 1000, 5000]) {
+          const left = build(values);
+          expect(left.shiftLeft(n)).toBe(left);
+          arrayEqual(
+            left.array(),
+            values.map((x) => x + n),
+          );
+
+          const right = build(values);
+          expect(right.shiftRight(n)).toBe(right);
+          arrayEqual(
+            right.array(),
+            values.filter((x) => x >= n).map((x) => x - n),
+          );
+
+          // round trip
+          expect(
+            build(values).shiftLeft(n).shiftRight(n).equals(build(values)),
+          ).toBe(true);
+        }
+      }
+    });
+
+    it("Testing negative shifts", () => {
+      const mb = build([10, 40, 100]);
+      mb.shiftLeft(-20);
+      arrayEqual(mb.array(), [20, 80]);
+      mb.shiftRight(-12);
+      arrayEqual(mb.array(), [32, 92]);
+    });
+
+    it("Testing new_shiftLeft/new_shiftRight", () => {
+      const mb = build([3, 64, 200]);
+      arrayEqual(mb.new_shiftLeft(29).array(), [32, 93, 229]);
+      arrayEqual(mb.new_shiftRight(64).array(), [0, 136]);
+      arrayEqual(mb.array(), [3, 64, 200]); // unchanged
+      expect(build().new_shiftLeft(100).isEmpty()).toBe(true);
+    });
+
+    it("Testing rotate", () => {
+      const mb = build([0, 1, 50, 98, 99, 150]);
+      expect(mb.rotate(2, 100)).toBe(mb);
+      arrayEqual(mb.array(), [0, 1, 2, 3, 52]); // 150 is outside the universe
+      mb.rotate(-3, 100);
+      arrayEqual(mb.array(), [0, 49, 97, 98, 99]);
+      mb.rotate(203, 100);
+      arrayEqual(mb.array(), [0, 1, 2, 3, 52]);
+      mb.rotate(100, 100);
+      arrayEqual(mb.array(), [0, 1, 2, 3, 52]);
+
+      const full = build();
+      full.addRange(0, 64);
+      full.rotate(17, 64);
+      expect(full.size()).toBe(64);
+      full.rotate(5, 0);
+      expect(full.isEmpty()).toBe(true);
+    });
+  });
+});
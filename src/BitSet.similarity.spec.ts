@@ -0,0 +1,68 @@
+import { bitsetTest } from "./testUtils";
+import { SparseTypedFastBitSet } from "./SparseTypedFastBitSet";
+import { TypedFastBitSet } from "./TypedFastBitSet";
+
+bitsetTest(({ name, build }) => {
+  describe(name, () => {
+    it("Testing similarity metrics", () => {
+      const a = [];
+      const b = [];
+      for (let i = 0; i < 3000; i += 2) a.push(i);
+      for (let i = 0; i < 4000; i += 3) b.push(i);
+      const mb = build(a);
+      for (const other of [
+        new TypedFastBitSet(b),
+        new SparseTypedFastBitSet(b),
+        build(b),
+      ]) {
+        const common = mb.intersection_size(other);
+        const union = mb.union_size(other);
+        const size = mb.size();
+        const otherSize = other.size();
+        expect(mb.jaccard(other)).toBeCloseTo(common / union, 12);
+        expect(mb.dice(other)).toBeCloseTo(
+          (2 * common) / (size + otherSize),
+          12,
+        );
+        expect(mb.cosine(other)).toBeCloseTo(
+          common / Math.sqrt(size * otherSize),
+          12,
+        );
+        expect(mb.tversky(other, 1, 1)).toBeCloseTo(mb.jaccard(other), 12);
+        expect(mb.tversky(other, 0.5, 0.5)).toBeCloseTo(mb.dice(other), 12);
+        expect(mb.tversky(other, 1, 0)).toBeCloseTo(common / size, 12);
+        expect(mb.hammingDistance(other)).toBe(mb.change_size(other));
+      }
+    });
+
+    it("Testing similarity of small bitsets", () => {
+      const mb = build([1, 2, 3, 4]);
+      const other = build([3, 4, 5, 6, 7, 8]);
+      expect(mb.jaccard(other)).toBe(0.25);
+      expect(mb.dice(other)).toBe(0.4);
+      expect(mb.cosine(other)).toBeCloseTo(2 / Math.sqrt(24), 12);
+      expect(mb.tversky(other, 0.25, 0.75)).toBe(2 / (2 + 0.5 + 3));
+      expect(mb.hammingDistance(other)).toBe(6);
+      expect(mb.jaccard(mb)).toBe(1);
+      expect(mb.hammingDistance(mb)).toBe(0);
+    });
+
+    it("Testing similarity of empty bitsets", () => {
+      const empty = build();
+      const cleared = build([5000]);
+      cleared.remove(5000);
+      const mb = build([7]);
+      expect(empty.jaccard(cleared)).toBe(1);
+      expect(empty.dice(cleared)).toBe(1);
+      expect(empty.cosine(cleared)).toBe(1);
+      expect(empty.tversky(cleared, 1, 1)).toBe(1);
+      expect(empty.hammingDistance(cleared)).toBe(0);
+
+      expect(empty.jaccard(mb)).toBe(0);
+      expect(empty.dice(mb)).toBe(0);
+      expect(mb.cosine(empty)).toBe(0);
+      expect(mb.tversky(empty, 0, 0)).toBe(0);
+      expect(mb.hammingDistance(empty)).toBe(1);
+    });
+  });
+});
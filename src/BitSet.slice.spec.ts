@@ -0,0 +1,81 @@
+import { bitsetTest } from "./testUtils";
+import { SparseTypedFastBitSet } from "./SparseTypedFastBitSet";
+import { TypedFastBitSet } from "./TypedFastBitSet";
+
+bitsetTest(({ name, build, arrayEqual }) => {
+  describe(name, () => {
+    it("Testing slice against has", () => {
+      const a = [0, 1, 5, 31, 32, 33, 63, 64, 100, 127, 500, 1000];
+      const dense = [];
+      for (let i = 0; i < 3000; i += 7) dense.push(i);
+      const windows = [
+        [0, 0],
+        [0, 32],
+        [1, 33],
+        [31, 65],
+        [32, 128],
+        [5, 1000],
+        [33, 5000],
+        [-10, 70],
+        [2000, 2500],
+        [100, 50],
+      ];
+      for (const values of [a, dense]) {
+        const mb = build(values);
+        for (const [start, end] of windows) {
+          const slice = mb.slice(start, end);
+          arrayEqual(
+            slice.array(),
+            values
+              .filter((x) => x >= start && x < end)
+              .map((x) => x - Math.max(start, 0)),
+          );
+        }
+        arrayEqual(mb.array(), values); // unchanged
+      }
+    });
+
+    it("Testing appendAt", () => {
+      const shard = [0, 1, 31, 100];
+      for (const other of [
+        new TypedFastBitSet(shard),
+        new SparseTypedFastBitSet(shard),
+      ]) {
+        for (const offset of [0, 1, 31, 32, 33, 1000]) {
+          const mb = build([2, 40]);
+          expect(mb.appendAt(other, offset)).toBe(mb);
+          const expected = [2, 40];
+          for (const x of shard) {
+            if (!expected.includes(x + offset)) expected.push(x + offset);
+          }
+          arrayEqual(
+            mb.array(),
+            expected.sort((x, y) => x - y),
+          );
+        }
+        arrayEqual(build([3]).appendAt(other, -31).array(), [0, 3, 69]);
+        expect(other.array().sort((x, y) => x - y)).toEqual(shard); // unchanged
+      }
+
+      const self = build([1, 2]);
+      self.appendAt(self, 10);
+      arrayEqual(self.array(), [1, 2, 11, 12]);
+      expect(build().appendAt(build(), 100).isEmpty()).toBe(true);
+    });
+
+    it("Testing concat reassembles shards", () => {
+      const mb = build();
+      for (let i = 0; i < 2000; i += 3) mb.add(i);
+      const cuts = [0, 37, 64, 500, 1001, 2000];
+      let assembled = build();
+      for (let i = 0; i + 1 < cuts.length; i++) {
+        assembled = assembled.concat(mb.slice(cuts[i], cuts[i + 1]), cuts[i]);
+      }
+      expect(assembled.equals(mb)).toBe(true);
+
+      const first = build([1, 2]);
+      arrayEqual(first.concat(build([0, 5]), 64).array(), [1, 2, 64, 69]);
+      arrayEqual(first.array(), [1, 2]); // unchanged
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { SparseTypedFastBitSet } from "./SparseTypedFastBitSet";
+import { TypedFastBitSet } from "./TypedFastBitSet";
+import { BitSet } from "./utils";
+
+describe("threshold queries", () => {
+  const criteria: BitSet[] = [];
+  for (let i = 0; i < 9; i++) {
+    const values = [];
+    for (let v = 0; v < 300 * (i + 1); v++) {
+      if ((v * (i + 3)) % (i + 2) === 0 || v % 7 === i) values.push(v);
+    }
+    criteria.push(
+      i % 3 === 2
+        ? new SparseTypedFastBitSet(values)
+        : new TypedFastBitSet(values),
+    );
+  }
+
+  const expected = (sets: BitSet[], test: (count: number) => boolean) => {
+    const answer = [];
+    for (let v = 0; v < 3000; v++) {
+      let count = 0;
+      for (const set of sets) if (set.has(v)) count++;
+      if (test(count)) answer.push(v);
+    }
+    return answer;
+  };
+
+  it("Testing atLeast/exactly against counting", () => {
+    for (let n = 1; n <= criteria.length; n++) {
+      const sets = criteria.slice(0, n);
+      for (let k = 1; k <= n + 1; k++) {
+        expect(TypedFastBitSet.atLeast(k, sets).array()).toEqual(
+          expected(sets, (count) => count >= k),
+        );
+        expect(TypedFastBitSet.exactly(k, sets).array()).toEqual(
+          expected(sets, (count) => count === k),
+        );
+      }
+    }
+  });
+
+  it("Testing threshold edge cases", () => {
+    const sets = criteria.slice(0, 4);
+    expect(
+      TypedFastBitSet.atLeast(1, sets).equals(
+        TypedFastBitSet.unionAll(...sets),
+      ),
+    ).toBe(true);
+    expect(
+      TypedFastBitSet.atLeast(4, sets).equals(
+        TypedFastBitSet.intersectionAll(...sets),
+      ),
+    ).toBe(true);
+    expect(
+      TypedFastBitSet.atLeast(0, sets).equals(
+        TypedFastBitSet.unionAll(...sets),
+      ),
+    ).toBe(true);
+    expect(TypedFastBitSet.exactly(0, sets).isEmpty()).toBe(true);
+    expect(TypedFastBitSet.atLeast(1, []).isEmpty()).toBe(true);
+
+    const full = new TypedFastBitSet();
+    full.addRange(0, 64);
+    const three = [full, full.clone(), full.clone()];
+    expect(TypedFastBitSet.exactly(3, three).size()).toBe(64);
+    expect(TypedFastBitSet.exactly(2, three).isEmpty()).toBe(true);
+  });
+});
@@ -0,0 +1,114 @@
+import { bitsetTest } from "./testUtils";
+import { SparseTypedFastBitSet } from "./SparseTypedFastBitSet";
+import { TypedFastBitSet } from "./TypedFastBitSet";
+import { BitSet } from "./utils";
+
+const others = (values: number[]): BitSet[] => {
+  const dense = new SparseTypedFastBitSet();
+  dense.addRange(2000, 4000); // switches to a bitset
+  dense.removeRange(2000, 4000);
+  for (const value of values) dense.add(value);
+  return [
+    new TypedFastBitSet(values),
+    new SparseTypedFastBitSet(values),
+    dense,
+  ];
+};
+
+bitsetTest(({ name, build, arrayEqual }) => {
+  describe(name, () => {
+    it("Testing windowed operations against has", () => {
+      const a = [0, 3, 31, 32, 40, 63, 64, 100, 130, 300, 1000];
+      const b = [1, 3, 30, 32, 41, 63, 65, 99, 100, 129, 130, 500, 2000];
+      const windows = [
+        [0, 0],
+        [0, 10],
+        [3, 4],
+        [30, 34],
+        [31, 65],
+        [32, 64],
+        [40, 131],
+        [90, 600],
+        [-5, 3000],
+        [150, 100],
+      ];
+      const operations: [
+        (x: BitSet, y: BitSet, start: number, end: number) => BitSet,
+        (x: boolean, y: boolean) => boolean,
+      ][] = [
+        [(x, y, s, e) => x.unionInRange(y, s, e), (x, y) => x || y],
+        [(x, y, s, e) => x.intersectionInRange(y, s, e), (x, y) => x && y],
+        [(x, y, s, e) => x.differenceInRange(y, s, e), (x, y) => x && !y],
+        [(x, y, s, e) => x.changeInRange(y, s, e), (x, y) => x !== y],
+      ];
+      for (const [start, end] of windows) {
+        for (const [operation, expected] of operations) {
+          for (const other of others(b)) {
+            const mb = build(a);
+            const reference = build(a);
+            expect(operation(mb, other, start, end)).toBe(mb);
+            const values = [];
+            for (let i = 0; i < 2100; i++) {
+              const inside = i >= start && i < end;
+              if (
+                inside
+                  ? expected(reference.has(i), other.has(i))
+                  : reference.has(i)
+              ) {
+                values.push(i);
+              }
+            }
+            arrayEqual(mb.array(), values);
+            expect(other.array().sort((x, y) => x - y)).toEqual(b); // unchanged
+          }
+        }
+      }
+    });
+
+    it("Testing windowed union growing the bitset", () => {
+      const mb = build([1, 2]);
+      mb.unionInRange(build([5, 500, 5000, 6000]), 100, 5001);
+      arrayEqual(mb.array(), [1, 2, 500, 5000]);
+      mb.changeInRange(build([2, 7000, 8000]), 0, 7500);
+      arrayEqual(mb.array(), [1, 500, 5000, 7000]);
+      mb.intersectionInRange(build(), 0, 600);
+      arrayEqual(mb.array(), [5000, 7000]);
+    });
+
+    it("Testing windowed operations with itself", () => {
+      const dense = build();
+      dense.addRange(0, 3000);
+      dense.removeRange(0, 3000);
+      for (const mb of [build([1, 5, 9]), dense]) {
+        for (const value of [1, 5, 9, 200]) mb.add(value);
+        expect(mb.unionInRange(mb, 0, 100)).toBe(mb);
+        expect(mb.intersectionInRange(mb, 0, 100)).toBe(mb);
+        arrayEqual(mb.array(), [1, 5, 9, 200]);
+        expect(mb.changeInRange(mb, 0, 100)).toBe(mb);
+        arrayEqual(mb.array(), [200]);
+        mb.add(5);
+        expect(mb.differenceInRange(mb, 5, 201)).toBe(mb);
+        expect(mb.isEmpty()).toBe(true);
+      }
+    });
+
+    it("Testing clip", () => {
+      const mb = build([0, 5, 31, 32, 64, 100, 1000]);
+      expect(mb.clip(5, 101)).toBe(mb);
+      arrayEqual(mb.array(), [5, 31, 32, 64, 100]);
+      mb.clip(-10, 64);
+      arrayEqual(mb.array(), [5, 31, 32]);
+      mb.clip(32, 10000);
+      arrayEqual(mb.array(), [32]);
+      mb.clip(40, 40);
+      expect(mb.isEmpty()).toBe(true);
+
+      const dense = build();
+      dense.addRange(0, 5000);
+      dense.clip(1000, 1010);
+      expect(dense.size()).toBe(10);
+      expect(dense.min()).toBe(1000);
+      expect(dense.max()).toBe(1009);
+    });
+  });
+});
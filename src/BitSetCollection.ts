@@ -0,0 +1,200 @@
+/**
+ * TypedFastBitSet.js : a fast bit set implementation in JavaScript.
+ * (c) the authors
+ * Licensed under the Apache License, Version 2.0.
+ *
+ * Similarity search over a collection of bitsets (fingerprints).
+ *
+ * The bitsets are kept ordered by cardinality. Since |A ∩ B| <= min(|A|, |B|),
+ * the cardinalities alone bound the similarity between a query and a candidate,
+ * and this bound only gets worse as the candidate cardinality moves away from
+ * the query cardinality. A search therefore starts from the candidates whose
+ * cardinality is closest to the query and walks outward, and stops as soon as
+ * the bound cannot beat the results found so far: most candidates never need a
+ * word by word comparison.
+ *
+ * The bitsets must not be modified once added to the collection.
+ *
+ * Simple usage :
+ *  const collection = new BitSetCollection();
+ *  const id = collection.add(new TypedFastBitSet([1, 5, 10]));
+ *  collection.nearest(query, 10); // the 10 most similar bitsets (Jaccard)
+ *  collection.nearest(query, 10, "cosine");
+ *  collection.withinDistance(query, 3); // Hamming distance at most 3
+ */
+
+import { BitSet } from "./utils";
+
+/**
+ * "jaccard", "dice" and "cosine" are similarities (higher is closer),
+ * "hamming" is a distance (lower is closer)
+ */
+export type BitSetMetric = "jaccard" | "dice" | "cosine" | "hamming";
+
+export interface BitSetMatch {
+  /** Identifier returned by add() */
+  id: number;
+  /** Similarity, or distance for "hamming", between the query and the bitset */
+  score: number;
+}
+
+// score of a bitset of size otherSize sharing common values with a query of size size
+function score(
+  metric: BitSetMetric,
+  common: number,
+  size: number,
+  otherSize: number,
+): number {
+  switch (metric) {
+    case "jaccard": {
+      const union = size + otherSize - common;
+      return union === 0 ? 1 : common / union;
+    }
+    case "dice": {
+      const total = size + otherSize;
+      return total === 0 ? 1 : (2 * common) / total;
+    }
+    case "cosine":
+      if (size + otherSize === 0) return 1;
+      return common === 0 ? 0 : common / Math.sqrt(size * otherSize);
+    case "hamming":
+      return size + otherSize - 2 * common;
+  }
+}
+
+export class BitSetCollection {
+  private readonly bitsets: BitSet[] = [];
+  private readonly cardinalities: number[] = [];
+  // identifiers ordered by cardinality, rebuilt lazily after add()
+  private ordered: number[] = [];
+  private orderedSizes: number[] = [];
+  private dirty = false;
+
+  /**
+   * Add a bitset to the collection
+   * @returns its identifier, to be used with get()
+   */
+  add(bitset: BitSet): number {
+    const id = this.bitsets.length;
+    this.bitsets.push(bitset);
+    this.cardinalities.push(bitset.size());
+    this.dirty = true;
+    return id;
+  }
+
+  /**
+   * @returns the bitset with the given identifier
+   */
+  get(id: number): BitSet | undefined {
+    return this.bitsets[id];
+  }
+
+  /**
+   * @returns How many bitsets are stored in the collection?
+   */
+  size(): number {
+    return this.bitsets.length;
+  }
+
+  /**
+   * Finds the k bitsets closest to the query according to the metric
+   * @returns the matches, closest first
+   */
+  nearest(
+    query: BitSet,
+    k: number,
+    metric: BitSetMetric = "jaccard",
+  ): BitSetMatch[] {
+    const matches: BitSetMatch[] = [];
+    if (k <= 0) return matches;
+    this.order();
+    const ordered = this.ordered;
+    const sizes = this.orderedSizes;
+    const distance = metric === "hamming";
+    const better = (a: number, b: number) => (distance ? a < b : a > b);
+    const q = query.size();
+    let high = this.lowerBound(q);
+    let low = high - 1;
+    while (low >= 0 || high < ordered.length) {
+      // best score a candidate of the given cardinality could reach
+      const lowBound =
+        low >= 0 ? score(metric, sizes[low], q, sizes[low]) : NaN;
+      const highBound =
+        high < ordered.length ? score(metric, q, q, sizes[high]) : NaN;
+      let position: number;
+      let bound: number;
+      if (high >= ordered.length || (low >= 0 && better(lowBound, highBound))) {
+        position = low--;
+        bound = lowBound;
+      } else {
+        position = high++;
+        bound = highBound;
+      }
+      if (matches.length === k && !better(bound, matches[k - 1].score)) {
+        break; // the bounds only get worse further away
+      }
+      const id = ordered[position];
+      const common = query.intersection_size(this.bitsets[id]);
+      const value = score(metric, common, q, sizes[position]);
+      if (matches.length < k || better(value, matches[k - 1].score)) {
+        let i = matches.length < k ? matches.length : k - 1;
+        while (i > 0 && better(value, matches[i - 1].score)) {
+          matches[i] = matches[i - 1];
+          i--;
+        }
+        matches[i] = { id, score: value };
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Finds the bitsets within the given Hamming distance of the query
+   * @returns the matches, closest first
+   */
+  withinDistance(query: BitSet, radius: number): BitSetMatch[] {
+    const matches: BitSetMatch[] = [];
+    if (radius < 0) return matches;
+    this.order();
+    const ordered = this.ordered;
+    const sizes = this.orderedSizes;
+    const q = query.size();
+    // the distance is at least the difference of the cardinalities
+    const end = this.lowerBound(q + radius + 1);
+    for (let i = this.lowerBound(q - radius); i < end; i++) {
+      const id = ordered[i];
+      const distance =
+        q + sizes[i] - 2 * query.intersection_size(this.bitsets[id]);
+      if (distance <= radius) {
+        matches.push({ id, score: distance });
+      }
+    }
+    return matches.sort((a, b) => a.score - b.score || a.id - b.id);
+  }
+
+  private order(): void {
+    if (!this.dirty) return;
+    const cardinalities = this.cardinalities;
+    this.ordered = cardinalities
+      .map((_, id) => id)
+      .sort((a, b) => cardinalities[a] - cardinalities[b] || a - b);
+    this.orderedSizes = this.ordered.map((id) => cardinalities[id]);
+    this.dirty = false;
+  }
+
+  // first position of the ordered bitsets with a cardinality of at least size
+  private lowerBound(size: number): number {
+    const sizes = this.orderedSizes;
+    let low = 0;
+    let high = sizes.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (sizes[middle] < size) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * TypedFastBitSet.js : a fast bit set implementation in JavaScript.
+ * (c) the authors
+ * Licensed under the Apache License, Version 2.0.
+ *
+ * Seekable cursor over the values of a bitset.
+ *
+ * Unlike the plain iterator, a cursor can skip ahead without visiting the
+ * values in between (advanceTo), look at the next value without consuming it
+ * (peek), start over (reset), go through the values in decreasing order and
+ * be restricted to a [start, end) window. This is the building block for
+ * merge-joins and leapfrog intersections over many bitsets.
+ *
+ * Simple usage :
+ *  const b = new TypedFastBitSet([1, 5, 10, 100]);
+ *  const c = b.cursor();
+ *  c.next().value; // 1
+ *  c.advanceTo(7); // 10, skips 5
+ *  c.peek(); // 10, still not consumed
+ *  [...b.cursor({ start: 2, end: 50, reverse: true })]; // [10, 5]
+ */
+
+import { BitSet } from "./utils";
+
+export interface CursorOptions {
+  /** Smallest value of the window (inclusive), defaults to 0 */
+  start?: number;
+  /** Largest value of the window (exclusive), defaults to no bound */
+  end?: number;
+  /** Visit the values in decreasing order */
+  reverse?: boolean;
+}
+
+export class BitSetCursor implements IterableIterator<number> {
+  private readonly start: number;
+  private readonly end: number;
+  private readonly reverse: boolean;
+  // next value to be returned, -1 once the cursor is exhausted
+  private current: number;
+
+  constructor(
+    readonly bitset: BitSet,
+    options: CursorOptions = {},
+  ) {
+    this.start = Math.max(options.start ?? 0, 0);
+    this.end = options.end ?? Infinity;
+    this.reverse = options.reverse === true;
+    this.current = this.first();
+  }
+
+  [Symbol.iterator](): IterableIterator<number> {
+    return this;
+  }
+
+  /**
+   * Consume the next value
+   */
+  next(): IteratorResult<number> {
+    const value = this.current;
+    if (value === -1) {
+      return { done: true, value: undefined };
+    }
+    this.current = this.seek(this.reverse ? value - 1 : value + 1);
+    return { done: false, value };
+  }
+
+  /**
+   * @returns the next value without consuming it, or -1 if the cursor is exhausted
+   */
+  peek(): number {
+    return this.current;
+  }
+
+  /**
+   * Skip the values before `value` (after `value` in reverse mode), the cursor
+   * never moves backward.
+   *
+   * @returns the next value, or -1 if the cursor is exhausted
+   */
+  advanceTo(value: number): number {
+    const current = this.current;
+    if (current !== -1 && (this.reverse ? current > value : current < value)) {
+      this.current = this.seek(value);
+    }
+    return this.current;
+  }
+
+  /**
+   * Go back to the first value of the window
+   */
+  reset(): void {
+    this.current = this.first();
+  }
+
+  private first(): number {
+    return this.seek(this.reverse ? this.end - 1 : this.start);
+  }
+
+  // first value of the window at or after (before in reverse mode) `value`
+  private seek(value: number): number {
+    if (this.reverse) {
+      if (value >= this.end) value = this.end - 1;
+      if (value < this.start) return -1;
+      const v = this.bitset.previousSetBit(value);
+      return v >= this.start ? v : -1;
+    } else {
+      if (value < this.start) value = this.start;
+      if (value >= this.end) return -1;
+      const v = this.bitset.nextSetBit(value);
+      return v !== -1 && v < this.end ? v : -1;
+    }
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * TypedFastBitSet.js : a fast bit set implementation in JavaScript.
+ * (c) the authors
+ * Licensed under the Apache License, Version 2.0.
+ *
+ * Lazy boolean expressions over bitsets, evaluated in a single word pass.
+ *
+ * An expression tree built with and, or, xor and not is compiled into a small
+ * postfix program. Evaluating it runs the program once per word over the words
+ * of all the operands, so that no intermediate bitset is ever allocated. The
+ * operands are read when the expression is evaluated, not when it is built.
+ *
+ * not(x, universeSize) is the complement of x within [0, universeSize).
+ *
+ * Simple usage :
+ *  const e = and(a, or(b, c), not(d, 100000));
+ *  e.toBitSet(); // a new TypedFastBitSet
+ *  e.size(); // number of values, nothing is allocated
+ *  for (const value of e) {} // values computed word by word
+ */
+
+import { TypedFastBitSet } from "./TypedFastBitSet";
+import { BitSet, hammingWeight } from "./utils";
+
+export type BitSetOperand = BitSet | BitSetExpression;
+
+enum Op {
+  LOAD, // pushes the word of operand arg
+  AND, // combines the arg words on top of the stack
+  OR,
+  XOR,
+  NOT, // complements the word on top of the stack within [0, arg)
+}
+
+// logical word count of a BitSet
+function wc(bitmap: BitSet): number {
+  return bitmap instanceof TypedFastBitSet
+    ? bitmap._count
+    : bitmap.words.length;
+}
+
+export class BitSetExpression {
+  private readonly ops: Op[] = [];
+  private readonly args: number[] = [];
+  private readonly leaves: BitSet[] = [];
+  // largest stack needed to run the program
+  private readonly depth: number;
+
+  /**
+   * universeSize is only used by "not", whose values are taken in
+   * [0, universeSize)
+   */
+  constructor(
+    operator: "and" | "or" | "xor" | "not",
+    operands: BitSetOperand[],
+    universeSize = 0,
+  ) {
+    if (operator === "not" ? operands.length !== 1 : operands.length === 0) {
+      throw new RangeError(
+        `${operator}() expects ${operator === "not" ? "one operand" : "at least one operand"}`,
+      );
+    }
+    for (const operand of operands) {
+      if (operand instanceof BitSetExpression) {
+        const offset = this.leaves.length;
+        for (let pc = 0; pc < operand.ops.length; pc++) {
+          const op = operand.ops[pc];
+          this.ops.push(op);
+          this.args.push(
+            op === Op.LOAD ? operand.args[pc] + offset : operand.args[pc],
+          );
+        }
+        this.leaves.push(...operand.leaves);
+      } else {
+        this.ops.push(Op.LOAD);
+        this.args.push(this.leaves.length);
+        this.leaves.push(operand);
+      }
+    }
+    switch (operator) {
+      case "and":
+        this.ops.push(Op.AND);
+        break;
+      case "or":
+        this.ops.push(Op.OR);
+        break;
+      case "xor":
+        this.ops.push(Op.XOR);
+        break;
+      case "not":
+        this.ops.push(Op.NOT);
+        break;
+    }
+    this.args.push(
+      operator === "not" ? Math.max(0, universeSize) : operands.length,
+    );
+    let depth = 0;
+    let size = 0;
+    for (let pc = 0; pc < this.ops.length; pc++) {
+      const op = this.ops[pc];
+      if (op === Op.LOAD) {
+        depth = Math.max(depth, ++size);
+      } else if (op !== Op.NOT) {
+        size -= this.args[pc] - 1;
+      }
+    }
+    this.depth = depth;
+  }
+
+  /**
+   * Evaluates the expression
+   * @returns a new TypedFastBitSet
+   */
+  toBitSet(): TypedFastBitSet {
+    const { count, word } = this.evaluator();
+    const words = new Uint32Array(count);
+    for (let k = 0; k < count; ++k) {
+      words[k] = word(k);
+    }
+    return TypedFastBitSet.fromWords(words);
+  }
+
+  /**
+   * Evaluates the expression without storing the result
+   * @returns How many values are in the result?
+   */
+  size(): number {
+    const { count, word } = this.evaluator();
+    let answer = 0;
+    for (let k = 0; k < count; ++k) {
+      answer += hammingWeight(word(k));
+    }
+    return answer;
+  }
+
+  /**
+   * Iterator of the values of the result, computed one word at a time
+   */
+  [Symbol.iterator](): IterableIterator<number> {
+    const { count, word } = this.evaluator();
+    let k = 0;
+    let w = count > 0 ? word(0) : 0;
+
+    return {
+      [Symbol.iterator]() {
+        return this;
+      },
+      next() {
+        while (k < count) {
+          if (w !== 0) {
+            const value = (k << 5) + (31 - Math.clz32(w & -w));
+            w &= w - 1;
+            return { done: false, value };
+          }
+          k++;
+          if (k < count) {
+            w = word(k);
+          }
+        }
+        return { done: true, value: undefined };
+      },
+    };
+  }
+
+  // reads the operands: count is the number of words of the result,
+  // word(k) computes its k-th word
+  private evaluator(): { count: number; word: (k: number) => number } {
+    const ops = this.ops;
+    const args = this.args;
+    const allWords = this.leaves.map((leaf) => leaf.words);
+    const counts = this.leaves.map(wc);
+    let count = 0;
+    for (const c of counts) {
+      count = Math.max(count, c);
+    }
+    for (let pc = 0; pc < ops.length; pc++) {
+      if (ops[pc] === Op.NOT) {
+        count = Math.max(count, (args[pc] + 31) >>> 5);
+      }
+    }
+    const stack = new Int32Array(this.depth);
+    const word = (k: number): number => {
+      let sp = 0;
+      for (let pc = 0; pc < ops.length; pc++) {
+        const arg = args[pc];
+        switch (ops[pc]) {
+          case Op.LOAD:
+            stack[sp++] = k < counts[arg] ? allWords[arg][k] : 0;
+            break;
+          case Op.AND: {
+            let w = stack[--sp];
+            for (let i = 1; i < arg; i++) w &= stack[--sp];
+            stack[sp++] = w;
+            break;
+          }
+          case Op.OR: {
+            let w = stack[--sp];
+            for (let i = 1; i < arg; i++) w |= stack[--sp];
+            stack[sp++] = w;
+            break;
+          }
+          case Op.XOR: {
+            let w = stack[--sp];
+            for (let i = 1; i < arg; i++) w ^= stack[--sp];
+            stack[sp++] = w;
+            break;
+          }
+          case Op.NOT: {
+            // arg is the universe size
+            const end = arg >>> 5;
+            if (k < end) {
+              stack[sp - 1] = ~stack[sp - 1];
+            } else if (k === end && (arg & 31) !== 0) {
+              stack[sp - 1] = ~stack[sp - 1] & ((1 << arg) - 1);
+            } else {
+              stack[sp - 1] = 0;
+            }
+            break;
+          }
+        }
+      }
+      return stack[0];
+    };
+    return { count, word };
+  }
+}
+
+/**
+ * @returns the expression of the values present in all the operands
+ */
+export function and(...operands: BitSetOperand[]): BitSetExpression {
+  return new BitSetExpression("and", operands);
+}
+
+/**
+ * @returns the expression of the values present in any of the operands
+ */
+export function or(...operands: BitSetOperand[]): BitSetExpression {
+  return new BitSetExpression("or", operands);
+}
+
+/**
+ * @returns the expression of the values present in an odd number of the operands
+ */
+export function xor(...operands: BitSetOperand[]): BitSetExpression {
+  return new BitSetExpression("xor", operands);
+}
+
+/**
+ * @returns the expression of the values of [0, universeSize) absent from the
+ * operand
+ */
+export function not(
+  operand: BitSetOperand,
+  universeSize: number,
+): BitSetExpression {
+  return new BitSetExpression("not", [operand], universeSize);
+}
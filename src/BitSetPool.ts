@@ -0,0 +1,161 @@
+/**
+ * TypedFastBitSet.js : a fast bit set implementation in JavaScript.
+ * (c) the authors
+ * Licensed under the Apache License, Version 2.0.
+ *
+ * Pool of word buffers for short-lived bitsets.
+ *
+ * acquire() returns an empty TypedFastBitSet whose words buffer comes from the
+ * pool when one of the right capacity is available. Once the bitset is no
+ * longer needed, release() (or a using declaration) clears its buffer and puts
+ * it back into the pool. The buffers are grouped in buckets by capacity, a
+ * power of two number of words, and each bucket keeps at most maxPerBucket
+ * buffers: the others are left to the garbage collector.
+ *
+ * using declarations need a runtime defining Symbol.dispose (or an application
+ * polyfilling it before loading this module): PooledBitSet only has a dispose
+ * method when the symbol exists.
+ *
+ * A released bitset is not recycled itself: it is left empty, without a
+ * buffer of its own, so that it cannot write into a buffer handed to someone
+ * else.
+ *
+ * Simple usage :
+ *  const pool = new BitSetPool();
+ *  const b = pool.acquire(100000); // room for values up to 100000
+ *  b.add(1);
+ *  b.release(); // or pool.release(b)
+ *  {
+ *    using scratch = pool.acquire(4096); // released at the end of the block
+ *  }
+ *  pool.stats(); // { hits, misses, released, discarded }
+ */
+
+import { TypedFastBitSet } from "./TypedFastBitSet";
+
+const MIN_SHIFT = 3; // the smallest buffers have 8 words, as in TypedFastBitSet
+const EMPTY = new Uint32Array(0);
+
+export interface BitSetPoolOptions {
+  /** How many buffers each bucket keeps (default: 16) */
+  maxPerBucket?: number;
+}
+
+export interface BitSetPoolStats {
+  /** acquire() calls served with a pooled buffer */
+  hits: number;
+  /** acquire() calls that allocated a new buffer */
+  misses: number;
+  /** buffers put back into the pool */
+  released: number;
+  /** buffers dropped because their bucket was full */
+  discarded: number;
+}
+
+/**
+ * TypedFastBitSet handed out by a BitSetPool
+ */
+export class PooledBitSet extends TypedFastBitSet {
+  private pool: BitSetPool | null;
+
+  constructor(pool: BitSetPool, words: Uint32Array) {
+    super(undefined, words);
+    this._count = 0;
+    this.pool = pool;
+  }
+
+  /**
+   * Give the buffer back to the pool, the bitset is left empty.
+   * Releasing a bitset more than once has no effect.
+   */
+  release(): void {
+    const pool = this.pool;
+    if (pool === null) return;
+    this.pool = null;
+    this._version++;
+    const words = this.words;
+    words.fill(0, 0, this._count);
+    this.words = EMPTY;
+    this._count = 0;
+    pool.recycle(words);
+  }
+}
+
+export interface PooledBitSet {
+  /** Same as release(), defined only when the runtime has Symbol.dispose */
+  [Symbol.dispose](): void;
+}
+
+if (typeof Symbol.dispose === "symbol") {
+  PooledBitSet.prototype[Symbol.dispose] = function (this: PooledBitSet) {
+    this.release();
+  };
+}
+
+export class BitSetPool {
+  // buckets[b] holds cleared buffers of at least 1 << b words
+  private readonly buckets: Uint32Array[][] = [];
+  private readonly maxPerBucket: number;
+  private hits = 0;
+  private misses = 0;
+  private released = 0;
+  private discarded = 0;
+
+  constructor(options: BitSetPoolOptions = {}) {
+    this.maxPerBucket = options.maxPerBucket ?? 16;
+  }
+
+  /**
+   * @returns an empty bitset with room for the values from 0 to sizeBits
+   * (exclusive) without reallocation; it may still grow beyond
+   */
+  acquire(sizeBits = 256): PooledBitSet {
+    const count = (Math.max(sizeBits, 1) + 31) >>> 5;
+    // smallest power of two number of words holding count words
+    const bucket = Math.max(MIN_SHIFT, 32 - Math.clz32(count - 1));
+    const buffers = this.buckets[bucket];
+    if (buffers !== undefined && buffers.length > 0) {
+      this.hits++;
+      return new PooledBitSet(this, buffers.pop()!);
+    }
+    this.misses++;
+    return new PooledBitSet(this, new Uint32Array(1 << bucket));
+  }
+
+  /**
+   * Give the buffer of the bitset back to the pool, same as bitset.release()
+   */
+  release(bitset: PooledBitSet): void {
+    bitset.release();
+  }
+
+  /**
+   * @returns the counters of the pool since its creation
+   */
+  stats(): BitSetPoolStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      released: this.released,
+      discarded: this.discarded,
+    };
+  }
+
+  // stores a cleared buffer, called by PooledBitSet.release
+  recycle(words: Uint32Array): void {
+    if (words.length < 1 << MIN_SHIFT) {
+      this.discarded++;
+      return;
+    }
+    // largest power of two not exceeding the capacity: the buffer may have
+    // been reallocated by the bitset to any length
+    const bucket = 31 - Math.clz32(words.length);
+    const buffers = this.buckets[bucket] ?? (this.buckets[bucket] = []);
+    if (buffers.length >= this.maxPerBucket) {
+      this.discarded++;
+      return;
+    }
+    buffers.push(words);
+    this.released++;
+  }
+}
@@ -0,0 +1,302 @@
+/**
+ * TypedFastBitSet.js : a fast bit set implementation in JavaScript.
+ * (c) the authors
+ * Licensed under the Apache License, Version 2.0.
+ *
+ * Boolean queries over a registry of named bitsets.
+ *
+ * A query combines names with AND, OR, NOT and parentheses (the keywords are
+ * case insensitive, NOT binds tighter than AND, which binds tighter than OR).
+ * Names are made of letters, digits, '_', '.', ':' and '-'.
+ *
+ * The evaluator plans each AND: its operands are intersected from the smallest
+ * to the largest, the NOT operands are applied last as differences, and the
+ * evaluation stops as soon as the result is empty. Bitsets of the registry are
+ * never modified, and only copied when they have to be.
+ *
+ * NOT is only bounded inside an AND with at least one operand that is not
+ * negated; anywhere else ("NOT a", "a OR NOT b") it needs the universeSize
+ * option.
+ *
+ * Simple usage :
+ *  const registry = { premium, active, trial, churned }; // or a Map
+ *  evaluateQuery("(premium AND active) OR (trial AND NOT churned)", registry);
+ *  evaluateQuery("NOT churned", registry, { universeSize: 1000000 });
+ *  const query = parseQuery("premium AND active"); // parse once, evaluate often
+ *  evaluateQuery(query, registry);
+ */
+
+import { TypedFastBitSet } from "./TypedFastBitSet";
+import { BitSet } from "./utils";
+
+/** Syntax tree of a query, AND and OR nodes have at least two operands */
+export type BitSetQuery =
+  | { type: "name"; name: string }
+  | { type: "not"; operand: BitSetQuery }
+  | { type: "and"; operands: BitSetQuery[] }
+  | { type: "or"; operands: BitSetQuery[] };
+
+export type BitSetRegistry = Map<string, BitSet> | Record<string, BitSet>;
+
+export interface QueryOptions {
+  /** Values of a NOT outside of an AND are taken in [0, universeSize) */
+  universeSize?: number;
+}
+
+const NAME = /[A-Za-z0-9_.:-]/;
+
+/**
+ * Parses a query such as "(premium AND active) OR (trial AND NOT churned)"
+ * @throws SyntaxError if the query is malformed
+ */
+export function parseQuery(text: string): BitSetQuery {
+  const tokens: string[] = [];
+  const positions: number[] = [];
+  for (let i = 0; i < text.length;) {
+    const c = text[i];
+    if (c === "(" || c === ")") {
+      tokens.push(c);
+      positions.push(i++);
+    } else if (NAME.test(c)) {
+      const start = i;
+      while (i < text.length && NAME.test(text[i])) i++;
+      tokens.push(text.slice(start, i));
+      positions.push(start);
+    } else if (/\s/.test(c)) {
+      i++;
+    } else {
+      throw new SyntaxError(`unexpected '${c}' at position ${i}`);
+    }
+  }
+
+  let current = 0;
+  const keyword = (token: string | undefined) =>
+    token === undefined ? undefined : token.toUpperCase();
+  const fail = (expected: string): never => {
+    throw new SyntaxError(
+      current < tokens.length
+        ? `expected ${expected} at position ${positions[current]}, found '${tokens[current]}'`
+        : `expected ${expected} at the end of the query`,
+    );
+  };
+
+  // query := and (OR and)*
+  const parseOr = (): BitSetQuery => {
+    const operands = [parseAnd()];
+    while (keyword(tokens[current]) === "OR") {
+      current++;
+      operands.push(parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { type: "or", operands };
+  };
+  // and := not (AND not)*
+  const parseAnd = (): BitSetQuery => {
+    const operands = [parseNot()];
+    while (keyword(tokens[current]) === "AND") {
+      current++;
+      operands.push(parseNot());
+    }
+    return operands.length === 1 ? operands[0] : { type: "and", operands };
+  };
+  // not := NOT not | '(' query ')' | name
+  const parseNot = (): BitSetQuery => {
+    const token = tokens[current];
+    switch (keyword(token)) {
+      case "NOT":
+        current++;
+        return { type: "not", operand: parseNot() };
+      case "(": {
+        current++;
+        const query = parseOr();
+        if (tokens[current] !== ")") fail("')'");
+        current++;
+        return query;
+      }
+      case undefined:
+      case ")":
+      case "AND":
+      case "OR":
+        return fail("a name");
+      default:
+        current++;
+        return { type: "name", name: token };
+    }
+  };
+
+  const query = parseOr();
+  if (current < tokens.length) fail("AND or OR");
+  return query;
+}
+
+// intermediate result: owned bitsets were computed by the evaluation and can
+// be modified in place, the others belong to the registry
+interface Result {
+  bitset: BitSet;
+  owned: boolean;
+}
+
+/**
+ * Evaluates a query over the named bitsets of the registry
+ * @returns a new bitset, the bitsets of the registry are left unchanged
+ * @throws SyntaxError if the query is malformed
+ * @throws ReferenceError if the query uses a name absent from the registry
+ * @throws RangeError if the query needs universeSize and it is missing
+ */
+export function evaluateQuery(
+  query: string | BitSetQuery,
+  registry: BitSetRegistry,
+  options: QueryOptions = {},
+): BitSet {
+  const tree = typeof query === "string" ? parseQuery(query) : query;
+  const lookup =
+    registry instanceof Map
+      ? (name: string) => registry.get(name)
+      : (name: string) =>
+          Object.prototype.hasOwnProperty.call(registry, name)
+            ? registry[name]
+            : undefined;
+  // resolve every name first, so that a short-circuit cannot hide a typo
+  const bitsets = new Map<string, BitSet>();
+  const resolve = (node: BitSetQuery): void => {
+    switch (node.type) {
+      case "name": {
+        const bitset = lookup(node.name);
+        if (bitset === undefined) {
+          throw new ReferenceError(`unknown bitset '${node.name}'`);
+        }
+        bitsets.set(node.name, bitset);
+        break;
+      }
+      case "not":
+        resolve(node.operand);
+        break;
+      default:
+        node.operands.forEach(resolve);
+    }
+  };
+  resolve(tree);
+
+  // sizes of the bitsets of the registry, computed at most once
+  const sizes = new Map<BitSet, number>();
+  const sizeOf = (bitset: BitSet): number => {
+    let size = sizes.get(bitset);
+    if (size === undefined) {
+      size = bitset.size();
+      sizes.set(bitset, size);
+    }
+    return size;
+  };
+  const owned = (result: Result): BitSet =>
+    result.owned ? result.bitset : result.bitset.clone();
+  const universe = (): number => {
+    if (options.universeSize === undefined) {
+      throw new RangeError("a NOT outside of an AND needs universeSize");
+    }
+    return options.universeSize;
+  };
+
+  const evaluate = (node: BitSetQuery): Result => {
+    switch (node.type) {
+      case "name":
+        return { bitset: bitsets.get(node.name)!, owned: false };
+      case "not":
+        return {
+          bitset: evaluate(node.operand).bitset.new_complement(universe()),
+          owned: true,
+        };
+      case "or":
+        return evaluateOr(node.operands);
+      case "and":
+        return evaluateAnd(node.operands);
+    }
+  };
+
+  const evaluateOr = (operands: BitSetQuery[]): Result => {
+    const results = operands
+      .map(evaluate)
+      .filter((result) => !result.bitset.isEmpty());
+    if (results.length === 0) {
+      return { bitset: new TypedFastBitSet(), owned: true };
+    }
+    // accumulate into an owned result if there is one, else copy the largest
+    let target = results.findIndex((result) => result.owned);
+    if (target < 0) {
+      target = 0;
+      for (let i = 1; i < results.length; i++) {
+        if (sizeOf(results[i].bitset) > sizeOf(results[target].bitset)) {
+          target = i;
+        }
+      }
+    }
+    const answer = owned(results[target]);
+    for (let i = 0; i < results.length; i++) {
+      if (i !== target) answer.union(results[i].bitset);
+    }
+    return { bitset: answer, owned: true };
+  };
+
+  const evaluateAnd = (operands: BitSetQuery[]): Result => {
+    const empty = (): Result => ({
+      bitset: new TypedFastBitSet(),
+      owned: true,
+    });
+    const positive = operands.filter((operand) => operand.type !== "not");
+    const negative: BitSetQuery[] = [];
+    for (const operand of operands) {
+      if (operand.type === "not") negative.push(operand.operand);
+    }
+
+    // names cost nothing to evaluate: check them before any sub-query
+    const results: Result[] = [];
+    for (const operand of positive) {
+      if (operand.type === "name") {
+        const result = evaluate(operand);
+        if (sizeOf(result.bitset) === 0) return empty();
+        results.push(result);
+      }
+    }
+    for (const operand of positive) {
+      if (operand.type !== "name") {
+        const result = evaluate(operand);
+        if (result.bitset.isEmpty()) return empty();
+        results.push(result);
+      }
+    }
+
+    let answer: BitSet;
+    if (results.length === 0) {
+      // only NOT operands: start from the universe
+      answer = new TypedFastBitSet();
+      answer.addRange(0, universe());
+    } else {
+      const measured = results.map((result) => ({
+        result,
+        size: result.owned ? result.bitset.size() : sizeOf(result.bitset),
+      }));
+      measured.sort((a, b) => a.size - b.size);
+      const smallest = measured[0].result;
+      if (
+        measured.length > 1 &&
+        !smallest.bitset.intersects(measured[1].result.bitset)
+      ) {
+        return empty();
+      }
+      answer = owned(smallest);
+      for (let i = 1; i < measured.length; i++) {
+        answer.intersection(measured[i].result.bitset);
+        if (answer.isEmpty()) return { bitset: answer, owned: true };
+      }
+    }
+
+    for (const operand of negative) {
+      const result = evaluate(operand);
+      if (answer.intersects(result.bitset)) {
+        answer.difference(result.bitset);
+        if (answer.isEmpty()) break;
+      }
+    }
+    return { bitset: answer, owned: true };
+  };
+
+  return owned(evaluate(tree));
+}
@@ -0,0 +1,175 @@
+/**
+ * TypedFastBitSet.js : a fast bit set implementation in JavaScript.
+ * (c) the authors
+ * Licensed under the Apache License, Version 2.0.
+ *
+ * MinHash sketches and LSH banding for approximate Jaccard similarity.
+ *
+ * A MinHash signature keeps, for each hash function of a seeded family, the
+ * smallest hash of the values of a bitset. The fraction of positions where two
+ * signatures agree estimates the Jaccard similarity of the bitsets, so that
+ * signatures (a few hundred bytes) can stand in for the bitsets themselves.
+ *
+ * The LSH index splits the signatures into bands of rows: two signatures are
+ * candidates when they agree on all the rows of at least one band. With b bands
+ * of r rows, sets of Jaccard similarity s become candidates with probability
+ * 1 - (1 - s^r)^b, a steep curve around (1/b)^(1/r).
+ *
+ * Simple usage :
+ *  const minhash = new MinHash(128, 42);
+ *  const a = minhash.signature(bitsetA);
+ *  const b = minhash.signature(bitsetB);
+ *  MinHash.estimateJaccard(a, b); // close to bitsetA.jaccard(bitsetB)
+ *  const index = new LSHIndex(32, 4); // 32 bands * 4 rows = 128 hashes
+ *  index.add(1, a);
+ *  index.query(b); // [1] if bitsetA and bitsetB are similar enough
+ */
+
+import { BitSet } from "./utils";
+
+// finalizer of MurmurHash3, a bijection on 32-bit integers with good avalanche
+function mix(h: number): number {
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+export class MinHash {
+  // hash i of x is mix(multipliers[i] * x + increments[i])
+  private readonly multipliers: Uint32Array;
+  private readonly increments: Uint32Array;
+
+  /**
+   * Creates a family of numHashes hash functions, signatures are only
+   * comparable when computed with the same numHashes and seed
+   */
+  constructor(
+    readonly numHashes = 128,
+    readonly seed = 0,
+  ) {
+    this.multipliers = new Uint32Array(numHashes);
+    this.increments = new Uint32Array(numHashes);
+    let state = mix(seed ^ 0x9e3779b9);
+    for (let i = 0; i < numHashes; i++) {
+      state = mix(state + 0x9e3779b9);
+      this.multipliers[i] = state | 1; // odd, so that x -> a * x is a bijection
+      state = mix(state + 0x9e3779b9);
+      this.increments[i] = state;
+    }
+  }
+
+  /**
+   * @returns the MinHash signature of the bitset, one value per hash function
+   */
+  signature(bitset: BitSet): Uint32Array {
+    const numHashes = this.numHashes;
+    const multipliers = this.multipliers;
+    const increments = this.increments;
+    const answer = new Uint32Array(numHashes).fill(0xffffffff);
+    bitset.forEach((index) => {
+      for (let i = 0; i < numHashes; i++) {
+        const h = mix((Math.imul(multipliers[i], index) + increments[i]) | 0);
+        if (h < answer[i]) {
+          answer[i] = h;
+        }
+      }
+    });
+    return answer;
+  }
+
+  /**
+   * @returns the estimated Jaccard similarity between the bitsets having
+   * these signatures (the fraction of positions where they agree)
+   */
+  static estimateJaccard(a: Uint32Array, b: Uint32Array): number {
+    const length = Math.min(a.length, b.length);
+    if (length === 0) return 0;
+    let equal = 0;
+    for (let i = 0; i < length; i++) {
+      if (a[i] === b[i]) equal++;
+    }
+    return equal / length;
+  }
+}
+
+export class LSHIndex {
+  // for each band, the identifiers stored under the hash of their rows
+  private readonly buckets: Map<number, number[]>[] = [];
+  private count = 0;
+
+  /**
+   * Creates an index using the first bands * rows values of the signatures
+   */
+  constructor(
+    readonly bands: number,
+    readonly rows: number,
+  ) {
+    for (let band = 0; band < bands; band++) {
+      this.buckets.push(new Map());
+    }
+  }
+
+  /**
+   * Add the signature of the bitset with the given identifier
+   */
+  add(id: number, signature: Uint32Array): void {
+    this.checkLength(signature);
+    for (let band = 0; band < this.bands; band++) {
+      const key = this.bandHash(signature, band);
+      const bucket = this.buckets[band].get(key);
+      if (bucket === undefined) {
+        this.buckets[band].set(key, [id]);
+      } else {
+        bucket.push(id);
+      }
+    }
+    this.count++;
+  }
+
+  /**
+   * @returns the identifiers sharing at least one band with the signature,
+   * in increasing order. Candidates should be confirmed, for instance with
+   * MinHash.estimateJaccard or with the bitsets themselves.
+   */
+  query(signature: Uint32Array): number[] {
+    this.checkLength(signature);
+    const candidates = new Set<number>();
+    for (let band = 0; band < this.bands; band++) {
+      const bucket = this.buckets[band].get(this.bandHash(signature, band));
+      if (bucket !== undefined) {
+        for (const id of bucket) {
+          candidates.add(id);
+        }
+      }
+    }
+    return Array.from(candidates).sort((a, b) => a - b);
+  }
+
+  /**
+   * @returns How many signatures were added?
+   */
+  size(): number {
+    return this.count;
+  }
+
+  private checkLength(signature: Uint32Array): void {
+    if (signature.length < this.bands * this.rows) {
+      throw new RangeError(
+        `signature has ${signature.length} values, ${this.bands * this.rows} are needed`,
+      );
+    }
+  }
+
+  // hash of the values of the rows of a band
+  private bandHash(signature: Uint32Array, band: number): number {
+    let h = mix(band);
+    const start = band * this.rows;
+    for (let i = start; i < start + this.rows; i++) {
+      h = mix(h ^ signature[i]);
+    }
+    return h;
+  }
+}
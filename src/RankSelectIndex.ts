@@ -0,0 +1,256 @@
+/**
+ * TypedFastBitSet.js : a fast bit set implementation in JavaScript.
+ * (c) the authors
+ * Licensed under the Apache License, Version 2.0.
+ *
+ * Rank/select acceleration structure for a TypedFastBitSet.
+ *
+ * The index caches the number of set bits in every block of 8 words (256 bits)
+ * together with the cumulative counts of all preceding blocks, so that rank is
+ * answered by one table lookup plus at most 8 popcounts, and select by a binary
+ * search over the blocks followed by a scan of a single block.
+ *
+ * Values added or removed through the index (add, remove, flip) only update the
+ * count of the affected block; the cumulative counts are recomputed lazily from
+ * the lowest modified block on the next query. Any other modification of the
+ * bitset (union, addRange, ...) is detected through its version, and the index
+ * is then rebuilt on the next query. Only writes made directly to the words of
+ * the bitset go unnoticed: call invalidate() after those.
+ *
+ * Simple usage :
+ *  const b = new TypedFastBitSet([1, 5, 1000]);
+ *  const index = new RankSelectIndex(b);
+ *  index.rank(1000); // 2
+ *  index.select(2); // 1000
+ *  index.add(3); // same as b.add(3), but keeps the index up to date
+ *  b.addRange(10, 20); // the index will be rebuilt on the next query
+ *  b.words[0] |= 1; // direct write to the words
+ *  index.invalidate(); // needed after direct writes only
+ */
+
+import { TypedFastBitSet } from "./TypedFastBitSet";
+import { hammingWeight, hammingWeight4 } from "./utils";
+
+const BLOCK_SHIFT = 3;
+const BLOCK_WORDS = 1 << BLOCK_SHIFT;
+
+export class RankSelectIndex {
+  // number of set bits in each block
+  private counts = new Uint32Array(0);
+  // cumulative[b] is the number of set bits in the blocks before b,
+  // entries after dirtyFrom are out of date
+  private cumulative = new Uint32Array(1);
+  private dirtyFrom = 0;
+  private stale = true;
+  // snapshot of the bitset storage and version, used to detect changes
+  private words: Uint32Array | null = null;
+  private count = 0;
+  private version = -1;
+
+  constructor(readonly bitset: TypedFastBitSet) {}
+
+  /**
+   * Add the value to the bitset, updating the index
+   */
+  add(index: number): void {
+    const version = this.bitset._version;
+    if (this.bitset.checkedAdd(index) === 1) {
+      this.adjust(index, 1, version);
+    }
+  }
+
+  /**
+   * Remove the value from the bitset, updating the index
+   */
+  remove(index: number): void {
+    if (this.bitset.has(index)) {
+      const version = this.bitset._version;
+      this.bitset.remove(index);
+      this.adjust(index, -1, version);
+    }
+  }
+
+  /**
+   * Flip the value in the bitset, updating the index
+   */
+  flip(index: number): void {
+    const version = this.bitset._version;
+    this.bitset.flip(index);
+    this.adjust(index, this.bitset.has(index) ? 1 : -1, version);
+  }
+
+  /**
+   * Mark the index as out of date, it is rebuilt on the next query.
+   * Only needed after writing directly to the words of the bitset.
+   */
+  invalidate(): void {
+    this.stale = true;
+  }
+
+  /**
+   * @returns How many values stored in the set?
+   */
+  size(): number {
+    this.refresh();
+    return this.cumulative[this.counts.length];
+  }
+
+  /**
+   * @returns the number of set bits strictly below index
+   */
+  rank(index: number): number {
+    this.refresh();
+    if (index <= 0) return 0;
+    if (index >= this.count << 5) return this.cumulative[this.counts.length];
+    const words = this.bitset.words;
+    const endword = index >>> 5;
+    let answer = this.cumulative[endword >>> BLOCK_SHIFT];
+    for (let k = endword & ~(BLOCK_WORDS - 1); k < endword; ++k) {
+      answer += hammingWeight(words[k] | 0);
+    }
+    return answer + hammingWeight(words[endword] & ((1 << index) - 1));
+  }
+
+  /**
+   * @returns the k-th smallest value (starting from k = 0), or -1 if there are
+   * not enough values in the set
+   */
+  select(k: number): number {
+    this.refresh();
+    const answer = this.find(k);
+    if (answer === -1 && this.stale) {
+      // the counts did not match the words (see find): retry once rebuilt
+      this.refresh();
+      return this.find(k);
+    }
+    return answer;
+  }
+
+  // select on the current counts; if the block they point to does not hold
+  // the value, the index is marked stale and -1 is returned
+  private find(k: number): number {
+    const cumulative = this.cumulative;
+    const nblocks = this.counts.length;
+    if (k < 0 || k >= cumulative[nblocks]) return -1;
+    // find the last block starting with fewer than k + 1 values
+    let lo = 0;
+    let hi = nblocks - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >>> 1;
+      if (cumulative[mid] <= k) {
+        lo = mid;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    k -= cumulative[lo];
+    const words = this.bitset.words;
+    const end = Math.min((lo + 1) << BLOCK_SHIFT, words.length);
+    for (let i = lo << BLOCK_SHIFT; i < end; ++i) {
+      let w = words[i];
+      const count = hammingWeight(w | 0);
+      if (k < count) {
+        for (; k > 0; --k) {
+          w &= w - 1;
+        }
+        return (i << 5) + (31 - Math.clz32(w & -w));
+      }
+      k -= count;
+    }
+    this.stale = true;
+    return -1;
+  }
+
+  // version is the version of the bitset before the update: if it was
+  // modified by other means in the meantime, the index is stale
+  private adjust(index: number, delta: number, version: number): void {
+    if (this.stale) return;
+    const bitset = this.bitset;
+    if (version !== this.version) {
+      this.stale = true;
+      return;
+    }
+    this.version = bitset._version;
+    if (this.words !== bitset.words || this.count !== bitset._count) {
+      if (bitset._count < this.count) {
+        this.stale = true;
+        return;
+      }
+      // the bitset grew to hold index: the new blocks are empty
+      const nblocks = (bitset._count + BLOCK_WORDS - 1) >>> BLOCK_SHIFT;
+      const oldblocks = this.counts.length;
+      if (nblocks > oldblocks) {
+        const counts = new Uint32Array(nblocks);
+        counts.set(this.counts);
+        const cumulative = new Uint32Array(nblocks + 1);
+        cumulative.set(this.cumulative);
+        this.counts = counts;
+        this.cumulative = cumulative;
+        this.dirtyFrom = Math.min(this.dirtyFrom, oldblocks);
+      }
+      this.words = bitset.words;
+      this.count = bitset._count;
+    }
+    const block = index >>> (5 + BLOCK_SHIFT);
+    this.counts[block] += delta;
+    if (block < this.dirtyFrom) {
+      this.dirtyFrom = block;
+    }
+  }
+
+  private refresh(): void {
+    const bitset = this.bitset;
+    if (
+      this.stale ||
+      this.version !== bitset._version ||
+      this.words !== bitset.words ||
+      this.count !== bitset._count
+    ) {
+      this.rebuild();
+      return;
+    }
+    const counts = this.counts;
+    const cumulative = this.cumulative;
+    const nblocks = counts.length;
+    for (let b = this.dirtyFrom; b < nblocks; ++b) {
+      cumulative[b + 1] = cumulative[b] + counts[b];
+    }
+    this.dirtyFrom = nblocks;
+  }
+
+  private rebuild(): void {
+    const bitset = this.bitset;
+    const words = bitset.words;
+    const c = bitset._count;
+    const nblocks = (c + BLOCK_WORDS - 1) >>> BLOCK_SHIFT;
+    if (this.counts.length !== nblocks) {
+      this.counts = new Uint32Array(nblocks);
+      this.cumulative = new Uint32Array(nblocks + 1);
+    }
+    const counts = this.counts;
+    const cumulative = this.cumulative;
+    // words beyond _count are zero (or past the end of the buffer, reading as 0)
+    for (let b = 0; b < nblocks; ++b) {
+      const k = b << BLOCK_SHIFT;
+      counts[b] =
+        hammingWeight4(
+          words[k] | 0,
+          words[k + 1] | 0,
+          words[k + 2] | 0,
+          words[k + 3] | 0,
+        ) +
+        hammingWeight4(
+          words[k + 4] | 0,
+          words[k + 5] | 0,
+          words[k + 6] | 0,
+          words[k + 7] | 0,
+        );
+      cumulative[b + 1] = cumulative[b] + counts[b];
+    }
+    this.dirtyFrom = nblocks;
+    this.stale = false;
+    this.words = words;
+    this.count = c;
+    this.version = bitset._version;
+  }
+}
@@ -13,7 +13,8 @@
  * Very sparse data will remain an array until 1024 entries where it will convert to a bitset
  */
 
-import { BitSet, hammingWeight, hammingWeight4 } from "./utils";
+import { BitSetCursor, CursorOptions } from "./BitSetCursor";
+import { BitSet, BitSetRelation, hammingWeight, hammingWeight4 } from "./utils";
 
 enum Type {
   ARRAY,
@@ -79,6 +80,261 @@ export class SparseTypedFastBitSet implements BitSet {
     }
   }
 
+  /**
+   * @returns a new SparseTypedFastBitSet containing the [start, end) ranges
+   */
+  static fromRanges(ranges: Iterable<[number, number]>): SparseTypedFastBitSet {
+    const answer = new SparseTypedFastBitSet();
+    for (const [start, end] of ranges) {
+      answer.addRange(start, end);
+    }
+    return answer;
+  }
+
+  /**
+   * Computes the union of all the bitsets, the bitsets are combined word by
+   * word and the arrays are added value by value, a new bitmap is generated
+   */
+  static unionAll(...sets: BitSet[]): SparseTypedFastBitSet {
+    const answer = new SparseTypedFastBitSet();
+    let count = 0;
+    for (const set of sets) {
+      if (!SparseTypedFastBitSet.isArray(set)) {
+        count = Math.max(count, set.words.length);
+      }
+    }
+    if (count > 0) {
+      const words = new Uint32Array(count);
+      for (const set of sets) {
+        if (!SparseTypedFastBitSet.isArray(set)) {
+          const setWords = set.words;
+          for (let k = 0; k < setWords.length; ++k) {
+            words[k] |= setWords[k];
+          }
+        }
+      }
+      answer.data = words;
+      answer.arraySize = -1;
+    }
+    for (const set of sets) {
+      if (SparseTypedFastBitSet.isArray(set)) {
+        const array = set.data;
+        for (let i = 0; i < set.arraySize; i++) {
+          answer.add(array[i]);
+        }
+      }
+    }
+    return answer;
+  }
+
+  /**
+   * Computes the intersection of all the bitsets, smallest first: when one of
+   * them is an array, the values of the smallest array are checked against the
+   * other bitsets, otherwise the bitsets are combined word by word until the
+   * result is empty. A new bitmap is generated
+   */
+  static intersectionAll(...sets: BitSet[]): SparseTypedFastBitSet {
+    if (sets.length === 0) return new SparseTypedFastBitSet();
+    const ordered = sets
+      .slice()
+      .sort(
+        (a, b) =>
+          SparseTypedFastBitSet.estimate(a) - SparseTypedFastBitSet.estimate(b)
+      );
+    const arrayIndex = ordered.findIndex(SparseTypedFastBitSet.isArray);
+    if (arrayIndex !== -1) {
+      const smallest = ordered[arrayIndex] as SparseTypedFastBitSet;
+      ordered.splice(arrayIndex, 1);
+      const answer = new SparseTypedFastBitSet();
+      const array = smallest.data;
+      outer: for (let i = 0; i < smallest.arraySize; i++) {
+        const index = array[i];
+        for (const set of ordered) {
+          if (!set.has(index)) continue outer;
+        }
+        answer.add(index);
+      }
+      return answer;
+    }
+    let count = ordered[0].words.length;
+    const words = ordered[0].words.slice(0, count);
+    for (let i = 1; i < ordered.length && count > 0; i++) {
+      const setWords = ordered[i].words;
+      const mcount = Math.min(count, setWords.length);
+      let newcount = 0; // up to the last non-empty word
+      for (let k = 0; k < mcount; ++k) {
+        const w = words[k] & setWords[k];
+        words[k] = w;
+        if (w !== 0) newcount = k + 1;
+      }
+      words.fill(0, mcount, count);
+      count = newcount;
+    }
+    if (count === 0) return new SparseTypedFastBitSet();
+    const answer = new SparseTypedFastBitSet(undefined, words);
+    answer.arraySize = -1;
+    return answer;
+  }
+
+  /**
+   * Computes the values present in an odd number of the bitsets (XOR), the
+   * bitsets are combined word by word and the values of the arrays are
+   * flipped one by one, a new bitmap is generated
+   */
+  static xorAll(...sets: BitSet[]): SparseTypedFastBitSet {
+    const answer = new SparseTypedFastBitSet();
+    let count = 0;
+    for (const set of sets) {
+      if (!SparseTypedFastBitSet.isArray(set)) {
+        count = Math.max(count, set.words.length);
+      }
+    }
+    if (count > 0) {
+      const words = new Uint32Array(count);
+      for (const set of sets) {
+        if (!SparseTypedFastBitSet.isArray(set)) {
+          const setWords = set.words;
+          for (let k = 0; k < setWords.length; ++k) {
+            words[k] ^= setWords[k];
+          }
+        }
+      }
+      answer.data = words;
+      answer.arraySize = -1;
+    }
+    for (const set of sets) {
+      if (SparseTypedFastBitSet.isArray(set)) {
+        const array = set.data;
+        for (let i = 0; i < set.arraySize; i++) {
+          answer.flip(array[i]);
+        }
+      }
+    }
+    return answer;
+  }
+
+  /**
+   * Computes the size of the union of all the bitsets without creating it:
+   * the words of the bitsets are counted, then the values of the arrays found
+   * neither in a bitset nor in a previous array
+   */
+  static unionAll_size(...sets: BitSet[]): number {
+    const arrays = sets.filter(SparseTypedFastBitSet.isArray);
+    const bitsets = sets.filter((set) => !SparseTypedFastBitSet.isArray(set));
+    const allWords = bitsets.map((set) => set.words);
+    let count = 0;
+    for (const words of allWords) {
+      count = Math.max(count, words.length);
+    }
+    let answer = 0;
+    for (let k = 0; k < count; ++k) {
+      let w = 0;
+      for (const words of allWords) {
+        w |= words[k];
+      }
+      answer += hammingWeight(w | 0);
+    }
+    for (let j = 0; j < arrays.length; j++) {
+      const array = arrays[j].data;
+      outer: for (let i = 0; i < arrays[j].arraySize; i++) {
+        const index = array[i];
+        for (const set of bitsets) {
+          if (set.has(index)) continue outer;
+        }
+        for (let l = 0; l < j; l++) {
+          if (arrays[l].has(index)) continue outer;
+        }
+        answer++;
+      }
+    }
+    return answer;
+  }
+
+  /**
+   * Computes the size of the intersection of all the bitsets without creating
+   * it, as in intersectionAll: the values of the smallest array are counted
+   * when they are in all the other bitsets, otherwise the ANDed words are
+   */
+  static intersectionAll_size(...sets: BitSet[]): number {
+    if (sets.length === 0) return 0;
+    const ordered = sets
+      .slice()
+      .sort(
+        (a, b) =>
+          SparseTypedFastBitSet.estimate(a) - SparseTypedFastBitSet.estimate(b)
+      );
+    const arrayIndex = ordered.findIndex(SparseTypedFastBitSet.isArray);
+    let answer = 0;
+    if (arrayIndex !== -1) {
+      const smallest = ordered[arrayIndex] as SparseTypedFastBitSet;
+      ordered.splice(arrayIndex, 1);
+      const array = smallest.data;
+      outer: for (let i = 0; i < smallest.arraySize; i++) {
+        const index = array[i];
+        for (const set of ordered) {
+          if (!set.has(index)) continue outer;
+        }
+        answer++;
+      }
+      return answer;
+    }
+    // the first bitset has the fewest words
+    const allWords = ordered.map((set) => set.words);
+    const count = allWords[0].length;
+    for (let k = 0; k < count; ++k) {
+      let w = allWords[0][k];
+      for (let i = 1; i < allWords.length && w !== 0; i++) {
+        w &= allWords[i][k];
+      }
+      answer += hammingWeight(w | 0);
+    }
+    return answer;
+  }
+
+  /**
+   * Computes the size of the XOR of all the bitsets without creating it: the
+   * XORed words of the bitsets are counted, then each value of the arrays is
+   * counted in or out depending on how many sets hold it
+   */
+  static xorAll_size(...sets: BitSet[]): number {
+    const arrays = sets.filter(SparseTypedFastBitSet.isArray);
+    const bitsets = sets.filter((set) => !SparseTypedFastBitSet.isArray(set));
+    const allWords = bitsets.map((set) => set.words);
+    let count = 0;
+    for (const words of allWords) {
+      count = Math.max(count, words.length);
+    }
+    let answer = 0;
+    for (let k = 0; k < count; ++k) {
+      let w = 0;
+      for (const words of allWords) {
+        w ^= words[k];
+      }
+      answer += hammingWeight(w | 0);
+    }
+    for (let j = 0; j < arrays.length; j++) {
+      const array = arrays[j].data;
+      outer: for (let i = 0; i < arrays[j].arraySize; i++) {
+        const index = array[i];
+        // each value is handled with the first array holding it
+        for (let l = 0; l < j; l++) {
+          if (arrays[l].has(index)) continue outer;
+        }
+        let flipped = true;
+        for (let l = j + 1; l < arrays.length; l++) {
+          if (arrays[l].has(index)) flipped = !flipped;
+        }
+        if (!flipped) continue;
+        let inWords = false;
+        for (const set of bitsets) {
+          if (set.has(index)) inWords = !inWords;
+        }
+        answer += inWords ? -1 : 1;
+      }
+    }
+    return answer;
+  }
+
   private toBitset(): Uint32Array<ArrayBuffer> {
     const array = this.data;
     // currently converts its internal type to bitset
@@ -92,6 +348,38 @@ export class SparseTypedFastBitSet implements BitSet {
     return newWords;
   }
 
+  // values of the array in increasing order (array only)
+  private sortedArray(): Uint32Array {
+    return this.data.slice(0, this.arraySize).sort();
+  }
+
+  // removes the values of the array for which keep returns false (array only)
+  private filterArray(keep: (value: number) => boolean): void {
+    const array = this.data;
+    let findBiggest = false;
+    for (let i = 0; i < this.arraySize; i++) {
+      if (!keep(array[i])) {
+        if (i === 0) {
+          findBiggest = true;
+        }
+        array[i--] = array[--this.arraySize];
+      }
+    }
+    if (findBiggest && this.arraySize > 1) {
+      let largest = array[0];
+      let largestIndex = 0;
+      for (let i = 1; i < this.arraySize; i++) {
+        if (array[i] > largest) {
+          largest = array[i];
+          largestIndex = i;
+        }
+      }
+      const current = array[0];
+      array[0] = array[largestIndex];
+      array[largestIndex] = current;
+    }
+  }
+
   /**
    * Add the value (Set the bit at index to true)
    */
@@ -129,7 +417,7 @@ export class SparseTypedFastBitSet implements BitSet {
     if (type === Type.ARRAY) {
       const array = this.data;
       const arrayIndex = array.indexOf(index);
-      if (arrayIndex === -1) {
+      if (arrayIndex === -1 || arrayIndex >= this.arraySize) {
         if (this.arraySize > 0 && index > array[0]) {
           array[this.arraySize++] = array[0];
           array[0] = index;
@@ -248,6 +536,37 @@ export class SparseTypedFastBitSet implements BitSet {
     }
   }
 
+  /**
+   * Flip bits from start (inclusive) to end (exclusive)
+   */
+  flipRange(start: number, end: number): void {
+    if (start >= end) {
+      return;
+    }
+
+    const type = this.resize(end, end - start - 1);
+    if (type === Type.ARRAY) {
+      for (; start < end; start++) {
+        this.flip(start);
+      }
+    } else {
+      const words = this.data;
+
+      const firstword = start >> 5;
+      const endword = (end - 1) >> 5;
+
+      if (firstword === endword) {
+        words[firstword] ^= (~0 << start) & (~0 >>> -end);
+        return;
+      }
+      words[firstword] ^= ~0 << start;
+      for (let k = firstword + 1; k < endword; ++k) {
+        words[k] = ~words[k];
+      }
+      words[endword] ^= ~0 >>> -end;
+    }
+  }
+
   /**
    * Remove bits from start (inclusive) to end (exclusive)
    */
@@ -283,8 +602,10 @@ export class SparseTypedFastBitSet implements BitSet {
     } else {
       const words = this.data;
 
-      start = Math.min(start, (words.length << 5) - 1);
-      end = Math.min(end, (words.length << 5) - 1);
+      end = Math.min(end, words.length << 5);
+      if (start >= end) {
+        return;
+      }
 
       const firstword = start >> 5;
       const endword = (end - 1) >> 5;
@@ -329,6 +650,108 @@ export class SparseTypedFastBitSet implements BitSet {
     }
   }
 
+  /**
+   * Is any value of the (exclusive) range contained in the set?
+   */
+  hasAnyInRange(start: number, end: number): boolean {
+    if (start < 0) start = 0;
+    if (this.arraySize === -1) {
+      const words = this.data;
+      end = Math.min(end, words.length << 5);
+      if (start >= end) return false;
+      const firstword = start >>> 5;
+      const endword = (end - 1) >>> 5;
+      if (firstword === endword)
+        return (words[firstword] & ((~0 << start) & (~0 >>> -end))) !== 0;
+      if ((words[firstword] & (~0 << start)) !== 0) return true;
+      for (let index = firstword + 1; index < endword; index++)
+        if (words[index] !== 0) return true;
+      return (words[endword] & (~0 >>> -end)) !== 0;
+    } else {
+      const array = this.data;
+      for (let i = 0; i < this.arraySize; i++) {
+        if (array[i] >= start && array[i] < end) {
+          return true;
+        }
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Are all values of the (exclusive) range contained in the set?
+   * An empty range always returns true.
+   */
+  hasAllInRange(start: number, end: number): boolean {
+    if (start < 0) start = 0;
+    if (start >= end) return true;
+    if (this.arraySize === -1) {
+      const words = this.data;
+      if (end > words.length << 5) return false;
+      const firstword = start >>> 5;
+      const endword = (end - 1) >>> 5;
+      if (firstword === endword) {
+        const mask = (~0 << start) & (~0 >>> -end);
+        return (words[firstword] & mask) === mask;
+      }
+      if ((~words[firstword] & (~0 << start)) !== 0) return false;
+      for (let index = firstword + 1; index < endword; index++)
+        if (~words[index] !== 0) return false;
+      return (~words[endword] & (~0 >>> -end)) === 0;
+    } else {
+      return (
+        end - start <= this.arraySize &&
+        this.countRange(start, end) === end - start
+      );
+    }
+  }
+
+  /**
+   * Is no value of the (exclusive) range contained in the set?
+   */
+  isRangeEmpty(start: number, end: number): boolean {
+    return !this.hasAnyInRange(start, end);
+  }
+
+  /**
+   * @returns How many values of the (exclusive) range are contained in the set?
+   */
+  countRange(start: number, end: number): number {
+    if (start < 0) start = 0;
+    if (this.arraySize === -1) {
+      const words = this.data;
+      end = Math.min(end, words.length << 5);
+      if (start >= end) return 0;
+      const firstword = start >>> 5;
+      const endword = (end - 1) >>> 5;
+      if (firstword === endword)
+        return hammingWeight(words[firstword] & (~0 << start) & (~0 >>> -end));
+      let answer = hammingWeight(words[firstword] & (~0 << start));
+      let k = firstword + 1;
+      for (; k + 4 < endword; k += 4) {
+        answer += hammingWeight4(
+          words[k] | 0,
+          words[k + 1] | 0,
+          words[k + 2] | 0,
+          words[k + 3] | 0
+        );
+      }
+      for (; k < endword; ++k) {
+        answer += hammingWeight(words[k] | 0);
+      }
+      return answer + hammingWeight(words[endword] & (~0 >>> -end));
+    } else {
+      const array = this.data;
+      let answer = 0;
+      for (let i = 0; i < this.arraySize; i++) {
+        if (array[i] >= start && array[i] < end) {
+          answer++;
+        }
+      }
+      return answer;
+    }
+  }
+
   /**
    * Tries to add the value (Set the bit at index to true)
    *
@@ -498,95 +921,365 @@ export class SparseTypedFastBitSet implements BitSet {
   }
 
   /**
-   * @returns the set bit locations (values)
+   * @returns the number of set bits strictly below index
    */
-  array(): number[] {
+  rank(index: number): number {
+    if (index <= 0) return 0;
     if (this.arraySize === -1) {
       const words = this.data;
-      const answer = new Array(this.size());
-      let pos = 0 | 0;
-      const c = words.length;
-      for (let k = 0; k < c; ++k) {
-        let w = words[k];
-        while (w != 0) {
-          const t = w & -w;
-          answer[pos++] = (k << 5) + hammingWeight((t - 1) | 0);
-          w ^= t;
-        }
+      if (index >= words.length << 5) return this.size();
+      const endword = index >>> 5;
+      let answer = 0;
+      let k = 0 | 0;
+      for (; k + 4 < endword; k += 4) {
+        answer += hammingWeight4(
+          words[k] | 0,
+          words[k + 1] | 0,
+          words[k + 2] | 0,
+          words[k + 3] | 0
+        );
       }
-      return answer;
+      for (; k < endword; ++k) {
+        answer += hammingWeight(words[k] | 0);
+      }
+      return answer + hammingWeight(words[endword] & ((1 << index) - 1));
     } else {
       const array = this.data;
-      const answer = new Array(this.arraySize);
+      let answer = 0;
       for (let i = 0; i < this.arraySize; i++) {
-        answer[i] = array[i];
+        if (array[i] < index) {
+          answer++;
+        }
       }
       return answer;
     }
   }
 
-  forEach(fnc: (id: number) => void): void {
+  /**
+   * @returns the k-th smallest value (starting from k = 0), or -1 if there are
+   * not enough values in the set
+   */
+  select(k: number): number {
+    if (k < 0) return -1;
     if (this.arraySize === -1) {
       const words = this.data;
       const c = words.length;
-      for (let k = 0; k < c; ++k) {
-        let w = words[k];
-        while (w != 0) {
+      let i = 0 | 0;
+      // skip whole blocks of four words at a time
+      for (; i + 4 < c; i += 4) {
+        const count = hammingWeight4(
+          words[i] | 0,
+          words[i + 1] | 0,
+          words[i + 2] | 0,
+          words[i + 3] | 0
+        );
+        if (k < count) break;
+        k -= count;
+      }
+      for (; i < c; ++i) {
+        let w = words[i];
+        const count = hammingWeight(w | 0);
+        if (k < count) {
+          for (; k > 0; --k) {
+            w &= w - 1;
+          }
           const t = w & -w;
-          fnc(((k << 5) + hammingWeight(t - 1)) | 0);
-          w ^= t;
+          return (i << 5) + hammingWeight((t - 1) | 0);
         }
+        k -= count;
       }
+      return -1;
+    } else {
+      if (k >= this.arraySize) return -1;
+      return this.sortedArray()[k];
+    }
+  }
+
+  /**
+   * @returns the smallest value larger or equal to index, or -1 if there is none
+   */
+  nextSetBit(index: number): number {
+    if (index < 0) index = 0;
+    if (this.arraySize === -1) {
+      const words = this.data;
+      const c = words.length;
+      if (index >= c << 5) return -1;
+      let k = index >>> 5;
+      let w = words[k] & (~0 << index);
+      while (w === 0) {
+        if (++k >= c) return -1;
+        w = words[k];
+      }
+      return (k << 5) + (31 - Math.clz32(w & -w));
     } else {
       const array = this.data;
+      let answer = -1;
       for (let i = 0; i < this.arraySize; i++) {
         const v = array[i];
-        fnc(v);
-        if (v !== array[i]) {
-          i--;
+        if (v >= index && (answer === -1 || v < answer)) {
+          answer = v;
         }
       }
+      return answer;
     }
   }
 
   /**
-   * Iterator of set bit locations (values)
+   * @returns the largest value smaller or equal to index, or -1 if there is none
    */
-  [Symbol.iterator](): IterableIterator<number> {
+  previousSetBit(index: number): number {
+    if (index < 0) return -1;
     if (this.arraySize === -1) {
       const words = this.data;
       const c = words.length;
-      let k = 0;
-      let w = words[k];
-
-      return {
-        [Symbol.iterator]() {
-          return this;
-        },
-        next() {
-          while (k < c) {
-            if (w !== 0) {
-              const t = w & -w;
-              const value = (k << 5) + hammingWeight((t - 1) | 0);
-              w ^= t;
-              return { done: false, value };
-            } else {
-              k++;
-              if (k < c) {
-                w = words[k];
-              }
-            }
-          }
-          return { done: true, value: undefined };
-        },
-      };
+      let k: number;
+      let w: number;
+      if (index >= c << 5) {
+        k = c - 1;
+        if (k < 0) return -1;
+        w = words[k];
+      } else {
+        k = index >>> 5;
+        w = words[k] & (~0 >>> (31 - (index & 31)));
+      }
+      while (w === 0) {
+        if (--k < 0) return -1;
+        w = words[k];
+      }
+      return (k << 5) + (31 - Math.clz32(w));
     } else {
       const array = this.data;
-      const arraySize = this.arraySize;
-      let i = 0;
+      if (this.arraySize > 0 && index >= array[0]) {
+        return array[0];
+      }
+      let answer = -1;
+      for (let i = 1; i < this.arraySize; i++) {
+        const v = array[i];
+        if (v <= index && v > answer) {
+          answer = v;
+        }
+      }
+      return answer;
+    }
+  }
 
-      return {
-        [Symbol.iterator]() {
+  /**
+   * @returns the smallest value larger or equal to index that is not in the set
+   */
+  nextClearBit(index: number): number {
+    if (index < 0) index = 0;
+    if (this.arraySize === -1) {
+      const words = this.data;
+      const c = words.length;
+      if (index >= c << 5) return index;
+      let k = index >>> 5;
+      let w = ~words[k] & (~0 << index);
+      while (w === 0) {
+        if (++k >= c) return k << 5;
+        w = ~words[k];
+      }
+      return (k << 5) + (31 - Math.clz32(w & -w));
+    } else {
+      if (this.arraySize === 0 || index > this.data[0]) return index;
+      const sorted = this.sortedArray();
+      let i = 0;
+      while (i < sorted.length && sorted[i] < index) i++;
+      while (i < sorted.length && sorted[i] === index) {
+        i++;
+        index++;
+      }
+      return index;
+    }
+  }
+
+  /**
+   * @returns the largest value smaller or equal to index that is not in the set,
+   * or -1 if there is none
+   */
+  previousClearBit(index: number): number {
+    if (index < 0) return -1;
+    if (this.arraySize === -1) {
+      const words = this.data;
+      if (index >= words.length << 5) return index;
+      let k = index >>> 5;
+      let w = ~words[k] & (~0 >>> (31 - (index & 31)));
+      while (w === 0) {
+        if (--k < 0) return -1;
+        w = ~words[k];
+      }
+      return (k << 5) + (31 - Math.clz32(w));
+    } else {
+      if (this.arraySize === 0 || index > this.data[0]) return index;
+      const sorted = this.sortedArray();
+      let i = sorted.length - 1;
+      while (i >= 0 && sorted[i] > index) i--;
+      while (i >= 0 && sorted[i] === index) {
+        i--;
+        index--;
+      }
+      return index;
+    }
+  }
+
+  /**
+   * @returns the smallest value in the set, or -1 if the set is empty
+   */
+  min(): number {
+    return this.nextSetBit(0);
+  }
+
+  /**
+   * @returns the largest value in the set, or -1 if the set is empty
+   */
+  max(): number {
+    if (this.arraySize === -1) {
+      return this.previousSetBit((this.data.length << 5) - 1);
+    }
+    // the largest value is always kept first
+    return this.arraySize > 0 ? this.data[0] : -1;
+  }
+
+  /**
+   * @returns the set bit locations (values)
+   */
+  array(): number[] {
+    if (this.arraySize === -1) {
+      const words = this.data;
+      const answer = new Array(this.size());
+      let pos = 0 | 0;
+      const c = words.length;
+      for (let k = 0; k < c; ++k) {
+        let w = words[k];
+        while (w != 0) {
+          const t = w & -w;
+          answer[pos++] = (k << 5) + hammingWeight((t - 1) | 0);
+          w ^= t;
+        }
+      }
+      return answer;
+    } else {
+      const array = this.data;
+      const answer = new Array(this.arraySize);
+      for (let i = 0; i < this.arraySize; i++) {
+        answer[i] = array[i];
+      }
+      return answer;
+    }
+  }
+
+  /**
+   * Fills buffer with the set bit locations (values) larger or equal to
+   * fromIndex, in increasing order, until the buffer is full. To continue,
+   * call again with fromIndex set to the last value written plus one.
+   *
+   * @returns the number of values written
+   */
+  nextMany(buffer: Uint32Array, fromIndex = 0): number {
+    if (fromIndex < 0) fromIndex = 0;
+    const capacity = buffer.length;
+    if (capacity === 0) return 0;
+    if (this.arraySize === -1) {
+      const words = this.data;
+      const c = words.length;
+      if (fromIndex >= c << 5) return 0;
+      let pos = 0 | 0;
+      let k = fromIndex >>> 5;
+      let w = words[k] & (~0 << fromIndex);
+      for (;;) {
+        while (w !== 0) {
+          buffer[pos++] = (k << 5) + (31 - Math.clz32(w & -w));
+          if (pos === capacity) return pos;
+          w &= w - 1;
+        }
+        if (++k >= c) return pos;
+        w = words[k];
+      }
+    } else {
+      if (this.arraySize === 0 || fromIndex > this.data[0]) return 0;
+      const sorted = this.sortedArray();
+      let i = 0;
+      while (sorted[i] < fromIndex) i++;
+      const values = sorted.subarray(i, i + capacity);
+      buffer.set(values);
+      return values.length;
+    }
+  }
+
+  /**
+   * @returns a Uint32Array with the set bit locations (values) in increasing order
+   */
+  toUint32Array(): Uint32Array {
+    if (this.arraySize === -1) {
+      const answer = new Uint32Array(this.size());
+      this.nextMany(answer);
+      return answer;
+    } else {
+      return this.sortedArray();
+    }
+  }
+
+  forEach(fnc: (id: number) => void): void {
+    if (this.arraySize === -1) {
+      const words = this.data;
+      const c = words.length;
+      for (let k = 0; k < c; ++k) {
+        let w = words[k];
+        while (w != 0) {
+          const t = w & -w;
+          fnc(((k << 5) + hammingWeight(t - 1)) | 0);
+          w ^= t;
+        }
+      }
+    } else {
+      const array = this.data;
+      for (let i = 0; i < this.arraySize; i++) {
+        const v = array[i];
+        fnc(v);
+        if (v !== array[i]) {
+          i--;
+        }
+      }
+    }
+  }
+
+  /**
+   * Iterator of set bit locations (values)
+   */
+  [Symbol.iterator](): IterableIterator<number> {
+    if (this.arraySize === -1) {
+      const words = this.data;
+      const c = words.length;
+      let k = 0;
+      let w = words[k];
+
+      return {
+        [Symbol.iterator]() {
+          return this;
+        },
+        next() {
+          while (k < c) {
+            if (w !== 0) {
+              const t = w & -w;
+              const value = (k << 5) + hammingWeight((t - 1) | 0);
+              w ^= t;
+              return { done: false, value };
+            } else {
+              k++;
+              if (k < c) {
+                w = words[k];
+              }
+            }
+          }
+          return { done: true, value: undefined };
+        },
+      };
+    } else {
+      const array = this.data;
+      const arraySize = this.arraySize;
+      let i = 0;
+
+      return {
+        [Symbol.iterator]() {
           return this;
         },
         next() {
@@ -606,6 +1299,60 @@ export class SparseTypedFastBitSet implements BitSet {
     }
   }
 
+  /**
+   * Iterator of the maximal runs of consecutive values, as [start, end) pairs
+   */
+  ranges(): IterableIterator<[number, number]> {
+    if (this.arraySize === -1) {
+      const bitset = this;
+      let pos = 0;
+
+      return {
+        [Symbol.iterator]() {
+          return this;
+        },
+        next() {
+          const start = bitset.nextSetBit(pos);
+          if (start === -1) {
+            return { done: true, value: undefined };
+          }
+          pos = bitset.nextClearBit(start);
+          const value: [number, number] = [start, pos];
+          return { done: false, value };
+        },
+      };
+    } else {
+      const sorted = this.sortedArray();
+      let i = 0;
+
+      return {
+        [Symbol.iterator]() {
+          return this;
+        },
+        next() {
+          if (i >= sorted.length) {
+            return { done: true, value: undefined };
+          }
+          const start = sorted[i];
+          let end = start + 1;
+          while (++i < sorted.length && sorted[i] === end) {
+            end++;
+          }
+          const value: [number, number] = [start, end];
+          return { done: false, value };
+        },
+      };
+    }
+  }
+
+  /**
+   * @returns a cursor over the set bit locations (values), which can skip ahead,
+   * iterate in reverse and be restricted to a [start, end) window
+   */
+  cursor(options?: CursorOptions): BitSetCursor {
+    return new BitSetCursor(this, options);
+  }
+
   /**
    * Creates a copy of this bitmap
    */
@@ -849,85 +1596,342 @@ export class SparseTypedFastBitSet implements BitSet {
   }
 
   /**
-   * Computes the difference between this bitset and another one,
-   * the current bitset is modified (and returned by the function)
+   * Check if every value of this bitset is also in the other one,
+   * no bitmap is modified
    */
-  difference(otherbitmap: BitSet): BitSet {
-    if (this.arraySize === -1) {
-      if (
-        !(otherbitmap instanceof SparseTypedFastBitSet) ||
-        otherbitmap.arraySize === -1
-      ) {
-        const words = this.words;
-        const otherWords = otherbitmap.words;
-        const newcount = Math.min(words.length, otherWords.length);
-        let k = 0 | 0;
-        for (; k + 7 < newcount; k += 8) {
-          words[k] &= ~otherWords[k];
-          words[k + 1] &= ~otherWords[k + 1];
-          words[k + 2] &= ~otherWords[k + 2];
-          words[k + 3] &= ~otherWords[k + 3];
-          words[k + 4] &= ~otherWords[k + 4];
-          words[k + 5] &= ~otherWords[k + 5];
-          words[k + 6] &= ~otherWords[k + 6];
-          words[k + 7] &= ~otherWords[k + 7];
-        }
-        for (; k < newcount; ++k) {
-          words[k] &= ~otherWords[k];
-        }
-
-        return this;
-      } else {
-        const otherArray = otherbitmap.data;
-        for (let i = 0; i < otherbitmap.arraySize; i++) {
-          const index = otherArray[i];
-          if (this.has(index)) {
-            this.remove(index);
-          }
-        }
-
-        return this;
-      }
-    } else {
+  isSubsetOf(otherbitmap: BitSet): boolean {
+    if (this.arraySize !== -1) {
       const array = this.data;
-      let findBiggest = false;
       for (let i = 0; i < this.arraySize; i++) {
-        if (otherbitmap.has(array[i])) {
-          if (i === 0) {
-            findBiggest = true;
-          }
-          array[i--] = array[--this.arraySize];
-        }
-      }
-      if (findBiggest && this.arraySize > 1) {
-        let largest = array[0];
-        let largestIndex = 0;
-        for (let i = 1; i < this.arraySize; i++) {
-          if (array[i] > largest) {
-            largest = array[i];
-            largestIndex = i;
-          }
+        if (!otherbitmap.has(array[i])) {
+          return false;
         }
-        const current = array[0];
-        array[0] = array[largestIndex];
-        array[largestIndex] = current;
       }
-
-      return this;
+      return true;
+    }
+    if (
+      otherbitmap instanceof SparseTypedFastBitSet &&
+      otherbitmap.arraySize !== -1
+    ) {
+      const size = this.size();
+      return (
+        size <= otherbitmap.arraySize &&
+        otherbitmap.intersection_size(this) === size
+      );
+    }
+    const words = this.data;
+    const otherWords = otherbitmap.words;
+    const mcount = Math.min(words.length, otherWords.length);
+    for (let k = 0 | 0; k < mcount; ++k) {
+      if ((words[k] & ~otherWords[k]) !== 0) return false;
     }
+    for (let k = mcount; k < words.length; ++k) {
+      if (words[k] != 0) return false;
+    }
+    return true;
   }
 
   /**
-   * Computes the difference between this bitset and another one,
-   * the other bitset is modified (and returned by the function)
-   *
-   * (for this set A and other set B, this computes B = A - B  and returns B)
+   * Check if every value of the other bitset is also in this one,
+   * no bitmap is modified
    */
-  difference2<T extends BitSet>(otherbitmap: T): T {
-    if (
-      this.arraySize === -1 ||
-      !(otherbitmap instanceof SparseTypedFastBitSet)
-    ) {
+  isSupersetOf(otherbitmap: BitSet): boolean {
+    return otherbitmap.isSubsetOf(this);
+  }
+
+  /**
+   * Check if this bitset is a subset of the other one and they are not equal,
+   * no bitmap is modified
+   */
+  isProperSubsetOf(otherbitmap: BitSet): boolean {
+    const order = SparseTypedFastBitSet.order(this, otherbitmap);
+    switch (order.type) {
+      case Type.BITSET: {
+        const words = this.data;
+        const otherWords = otherbitmap.words;
+        const mcount = Math.min(words.length, otherWords.length);
+        let otherOnly = 0;
+        for (let k = 0 | 0; k < mcount; ++k) {
+          const w = words[k];
+          const o = otherWords[k];
+          if ((w & ~o) !== 0) return false;
+          otherOnly |= o & ~w;
+        }
+        for (let k = mcount; k < words.length; ++k) {
+          if (words[k] != 0) return false;
+        }
+        for (let k = mcount; k < otherWords.length; ++k) {
+          otherOnly |= otherWords[k];
+        }
+        return otherOnly !== 0;
+      }
+      case Type.ARRAY:
+      case Type.MIXED: {
+        const size = this.size();
+        return (
+          size < otherbitmap.size() &&
+          this.intersection_size(otherbitmap) === size
+        );
+      }
+    }
+  }
+
+  /**
+   * Check if this bitset and the other one have no value in common,
+   * no bitmap is modified
+   */
+  isDisjointFrom(otherbitmap: BitSet): boolean {
+    return !this.intersects(otherbitmap);
+  }
+
+  /**
+   * Compares this bitset with the other one in a single pass,
+   * no bitmap is modified
+   * @returns EQUAL, SUBSET (proper subset), SUPERSET (proper superset),
+   * DISJOINT or OVERLAP, checked in this order
+   */
+  relationTo(otherbitmap: BitSet): BitSetRelation {
+    const order = SparseTypedFastBitSet.order(this, otherbitmap);
+    switch (order.type) {
+      case Type.BITSET: {
+        const words = this.data;
+        const otherWords = otherbitmap.words;
+        const mcount = Math.min(words.length, otherWords.length);
+        let thisOnly = 0;
+        let otherOnly = 0;
+        let common = 0;
+        for (let k = 0 | 0; k < mcount; ++k) {
+          const w = words[k];
+          const o = otherWords[k];
+          thisOnly |= w & ~o;
+          otherOnly |= o & ~w;
+          common |= w & o;
+          if (thisOnly !== 0 && otherOnly !== 0 && common !== 0) {
+            return BitSetRelation.OVERLAP;
+          }
+        }
+        for (let k = mcount; k < words.length; ++k) {
+          thisOnly |= words[k];
+        }
+        for (let k = mcount; k < otherWords.length; ++k) {
+          otherOnly |= otherWords[k];
+        }
+        if (thisOnly === 0) {
+          return otherOnly === 0 ? BitSetRelation.EQUAL : BitSetRelation.SUBSET;
+        }
+        if (otherOnly === 0) return BitSetRelation.SUPERSET;
+        return common === 0 ? BitSetRelation.DISJOINT : BitSetRelation.OVERLAP;
+      }
+      case Type.ARRAY:
+      case Type.MIXED: {
+        const size = this.size();
+        const otherSize = otherbitmap.size();
+        const common = this.intersection_size(otherbitmap);
+        if (common === size) {
+          return common === otherSize
+            ? BitSetRelation.EQUAL
+            : BitSetRelation.SUBSET;
+        }
+        if (common === otherSize) return BitSetRelation.SUPERSET;
+        return common === 0 ? BitSetRelation.DISJOINT : BitSetRelation.OVERLAP;
+      }
+    }
+  }
+
+  /**
+   * Computes the Jaccard similarity |A ∩ B| / |A ∪ B| between this bitset and
+   * another one (1 when both are empty), no bitmap is modified
+   */
+  jaccard(otherbitmap: BitSet): number {
+    const [common, size, otherSize] = this.overlapCounts(otherbitmap);
+    const union = size + otherSize - common;
+    return union === 0 ? 1 : common / union;
+  }
+
+  /**
+   * Computes the Dice (Sørensen) similarity 2 |A ∩ B| / (|A| + |B|) between
+   * this bitset and another one (1 when both are empty), no bitmap is modified
+   */
+  dice(otherbitmap: BitSet): number {
+    const [common, size, otherSize] = this.overlapCounts(otherbitmap);
+    const total = size + otherSize;
+    return total === 0 ? 1 : (2 * common) / total;
+  }
+
+  /**
+   * Computes the cosine (Ochiai) similarity |A ∩ B| / sqrt(|A| |B|) between
+   * this bitset and another one (1 when both are empty), no bitmap is modified
+   */
+  cosine(otherbitmap: BitSet): number {
+    const [common, size, otherSize] = this.overlapCounts(otherbitmap);
+    if (size + otherSize === 0) return 1;
+    if (common === 0) return 0;
+    return common / Math.sqrt(size * otherSize);
+  }
+
+  /**
+   * Computes the Tversky similarity
+   * |A ∩ B| / (|A ∩ B| + alpha |A - B| + beta |B - A|) between this bitset (A)
+   * and another one (B), 1 when both are empty. alpha = beta = 1 gives the
+   * Jaccard similarity, alpha = beta = 0.5 gives the Dice similarity.
+   * No bitmap is modified
+   */
+  tversky(otherbitmap: BitSet, alpha: number, beta: number): number {
+    const [common, size, otherSize] = this.overlapCounts(otherbitmap);
+    if (size + otherSize === 0) return 1;
+    const denominator =
+      common + alpha * (size - common) + beta * (otherSize - common);
+    return denominator === 0 ? 0 : common / denominator;
+  }
+
+  /**
+   * Computes the Hamming distance (the number of values in only one of the
+   * two bitsets) between this bitset and another one, no bitmap is modified
+   */
+  hammingDistance(otherbitmap: BitSet): number {
+    const [common, size, otherSize] = this.overlapCounts(otherbitmap);
+    return size + otherSize - 2 * common;
+  }
+
+  // |this ∩ other|, |this| and |other|, counted in a single pass
+  private overlapCounts(otherbitmap: BitSet): [number, number, number] {
+    if (
+      this.arraySize !== -1 ||
+      (otherbitmap instanceof SparseTypedFastBitSet &&
+        otherbitmap.arraySize !== -1)
+    ) {
+      return [
+        this.intersection_size(otherbitmap),
+        this.size(),
+        otherbitmap.size(),
+      ];
+    }
+    const words = this.data;
+    const otherWords = otherbitmap.words;
+    const tc = words.length;
+    const oc = otherWords.length;
+    const mcount = Math.min(tc, oc);
+    let common = 0;
+    let size = 0;
+    let otherSize = 0;
+    let k = 0 | 0;
+    for (; k + 3 < mcount; k += 4) {
+      common += hammingWeight4(
+        words[k] & otherWords[k],
+        words[k + 1] & otherWords[k + 1],
+        words[k + 2] & otherWords[k + 2],
+        words[k + 3] & otherWords[k + 3]
+      );
+      size += hammingWeight4(
+        words[k],
+        words[k + 1],
+        words[k + 2],
+        words[k + 3]
+      );
+      otherSize += hammingWeight4(
+        otherWords[k],
+        otherWords[k + 1],
+        otherWords[k + 2],
+        otherWords[k + 3]
+      );
+    }
+    for (; k < mcount; ++k) {
+      common += hammingWeight(words[k] & otherWords[k]);
+      size += hammingWeight(words[k]);
+      otherSize += hammingWeight(otherWords[k]);
+    }
+    for (k = mcount; k < tc; ++k) {
+      size += hammingWeight(words[k]);
+    }
+    for (k = mcount; k < oc; ++k) {
+      otherSize += hammingWeight(otherWords[k]);
+    }
+    return [common, size, otherSize];
+  }
+
+  /**
+   * Computes the difference between this bitset and another one,
+   * the current bitset is modified (and returned by the function)
+   */
+  difference(otherbitmap: BitSet): BitSet {
+    if (this.arraySize === -1) {
+      if (
+        !(otherbitmap instanceof SparseTypedFastBitSet) ||
+        otherbitmap.arraySize === -1
+      ) {
+        const words = this.words;
+        const otherWords = otherbitmap.words;
+        const newcount = Math.min(words.length, otherWords.length);
+        let k = 0 | 0;
+        for (; k + 7 < newcount; k += 8) {
+          words[k] &= ~otherWords[k];
+          words[k + 1] &= ~otherWords[k + 1];
+          words[k + 2] &= ~otherWords[k + 2];
+          words[k + 3] &= ~otherWords[k + 3];
+          words[k + 4] &= ~otherWords[k + 4];
+          words[k + 5] &= ~otherWords[k + 5];
+          words[k + 6] &= ~otherWords[k + 6];
+          words[k + 7] &= ~otherWords[k + 7];
+        }
+        for (; k < newcount; ++k) {
+          words[k] &= ~otherWords[k];
+        }
+
+        return this;
+      } else {
+        const otherArray = otherbitmap.data;
+        for (let i = 0; i < otherbitmap.arraySize; i++) {
+          const index = otherArray[i];
+          if (this.has(index)) {
+            this.remove(index);
+          }
+        }
+
+        return this;
+      }
+    } else {
+      const array = this.data;
+      let findBiggest = false;
+      for (let i = 0; i < this.arraySize; i++) {
+        if (otherbitmap.has(array[i])) {
+          if (i === 0) {
+            findBiggest = true;
+          }
+          array[i--] = array[--this.arraySize];
+        }
+      }
+      if (findBiggest && this.arraySize > 1) {
+        let largest = array[0];
+        let largestIndex = 0;
+        for (let i = 1; i < this.arraySize; i++) {
+          if (array[i] > largest) {
+            largest = array[i];
+            largestIndex = i;
+          }
+        }
+        const current = array[0];
+        array[0] = array[largestIndex];
+        array[largestIndex] = current;
+      }
+
+      return this;
+    }
+  }
+
+  /**
+   * Computes the difference between this bitset and another one,
+   * the other bitset is modified (and returned by the function)
+   *
+   * (for this set A and other set B, this computes B = A - B  and returns B)
+   */
+  difference2<T extends BitSet>(otherbitmap: T): T {
+    if (
+      this.arraySize === -1 ||
+      !(otherbitmap instanceof SparseTypedFastBitSet)
+    ) {
+      // a TypedFastBitSet counts its modifications (see RankSelectIndex)
+      const versioned = otherbitmap as BitSet & { _version?: number };
+      if (versioned._version !== undefined) versioned._version++;
       const words = this.words;
       const mincount = Math.min(words.length, otherbitmap.words.length);
       otherbitmap.resize((words.length << 5) - 1);
@@ -1287,6 +2291,707 @@ export class SparseTypedFastBitSet implements BitSet {
     }
   }
 
+  /**
+   * Computes the union between this bitset and another one, restricted to the
+   * values from start (inclusive) to end (exclusive): values outside of this
+   * window are left unchanged. The current bitset is modified (and returned by the function)
+   */
+  unionInRange(otherbitmap: BitSet, start: number, end: number): this {
+    if (start < 0) start = 0;
+    if (start >= end) return this;
+    if (otherbitmap === this) return this;
+    if (
+      otherbitmap instanceof SparseTypedFastBitSet &&
+      otherbitmap.arraySize !== -1
+    ) {
+      const otherArray = otherbitmap.data;
+      for (let i = 0; i < otherbitmap.arraySize; i++) {
+        const index = otherArray[i];
+        if (index >= start && index < end) {
+          this.add(index);
+        }
+      }
+      return this;
+    }
+    const otherWords = otherbitmap.words;
+    end = Math.min(end, otherWords.length << 5);
+    if (start >= end) return this;
+    if (this.arraySize !== -1) {
+      this.data = this.toBitset();
+      this.arraySize = -1;
+    }
+    this.resize(end - 1);
+    const words = this.data;
+    const firstword = start >>> 5;
+    const endword = (end - 1) >>> 5;
+    if (firstword === endword) {
+      words[firstword] |= otherWords[firstword] & (~0 << start) & (~0 >>> -end);
+      return this;
+    }
+    words[firstword] |= otherWords[firstword] & (~0 << start);
+    for (let k = firstword + 1; k < endword; ++k) {
+      words[k] |= otherWords[k];
+    }
+    words[endword] |= otherWords[endword] & (~0 >>> -end);
+    return this;
+  }
+
+  /**
+   * Computes the intersection between this bitset and another one, restricted to
+   * the values from start (inclusive) to end (exclusive): values outside of this
+   * window are left unchanged. The current bitset is modified (and returned by the function)
+   */
+  intersectionInRange(otherbitmap: BitSet, start: number, end: number): this {
+    if (start < 0) start = 0;
+    if (start >= end) return this;
+    if (otherbitmap === this) return this;
+    if (this.arraySize !== -1) {
+      this.filterArray(
+        (value) => value < start || value >= end || otherbitmap.has(value)
+      );
+      return this;
+    }
+    if (
+      otherbitmap instanceof SparseTypedFastBitSet &&
+      otherbitmap.arraySize !== -1
+    ) {
+      const otherArray = otherbitmap.data;
+      const kept: number[] = [];
+      for (let i = 0; i < otherbitmap.arraySize; i++) {
+        const index = otherArray[i];
+        if (index >= start && index < end && this.has(index)) {
+          kept.push(index);
+        }
+      }
+      this.removeRange(start, end);
+      const words = this.data;
+      for (const index of kept) {
+        words[index >>> 5] |= 1 << index;
+      }
+      return this;
+    }
+    const words = this.data;
+    const otherWords = otherbitmap.words;
+    const oc = otherWords.length;
+    end = Math.min(end, words.length << 5);
+    if (start >= end) return this;
+    const firstword = start >>> 5;
+    const endword = (end - 1) >>> 5;
+    const firstmask = ~0 << start;
+    const endmask = ~0 >>> -end;
+    if (firstword === endword) {
+      words[firstword] &=
+        (firstword < oc ? otherWords[firstword] : 0) | ~(firstmask & endmask);
+      return this;
+    }
+    words[firstword] &=
+      (firstword < oc ? otherWords[firstword] : 0) | ~firstmask;
+    const mcount = Math.min(endword, oc);
+    let k = firstword + 1;
+    for (; k < mcount; ++k) {
+      words[k] &= otherWords[k];
+    }
+    for (; k < endword; ++k) {
+      words[k] = 0;
+    }
+    words[endword] &= (endword < oc ? otherWords[endword] : 0) | ~endmask;
+    return this;
+  }
+
+  /**
+   * Computes the difference between this bitset and another one, restricted to
+   * the values from start (inclusive) to end (exclusive): values outside of this
+   * window are left unchanged. The current bitset is modified (and returned by the function)
+   */
+  differenceInRange(otherbitmap: BitSet, start: number, end: number): this {
+    if (start < 0) start = 0;
+    if (start >= end) return this;
+    if (otherbitmap === this) {
+      this.removeRange(start, end);
+      return this;
+    }
+    if (this.arraySize !== -1) {
+      this.filterArray(
+        (value) => value < start || value >= end || !otherbitmap.has(value)
+      );
+      return this;
+    }
+    if (
+      otherbitmap instanceof SparseTypedFastBitSet &&
+      otherbitmap.arraySize !== -1
+    ) {
+      const otherArray = otherbitmap.data;
+      for (let i = 0; i < otherbitmap.arraySize; i++) {
+        const index = otherArray[i];
+        if (index >= start && index < end && this.has(index)) {
+          this.remove(index);
+        }
+      }
+      return this;
+    }
+    const words = this.data;
+    const otherWords = otherbitmap.words;
+    end = Math.min(end, words.length << 5, otherWords.length << 5);
+    if (start >= end) return this;
+    const firstword = start >>> 5;
+    const endword = (end - 1) >>> 5;
+    if (firstword === endword) {
+      words[firstword] &= ~(
+        otherWords[firstword] &
+        (~0 << start) &
+        (~0 >>> -end)
+      );
+      return this;
+    }
+    words[firstword] &= ~(otherWords[firstword] & (~0 << start));
+    for (let k = firstword + 1; k < endword; ++k) {
+      words[k] &= ~otherWords[k];
+    }
+    words[endword] &= ~(otherWords[endword] & (~0 >>> -end));
+    return this;
+  }
+
+  /**
+   * Computes the changed elements (XOR) between this bitset and another one,
+   * restricted to the values from start (inclusive) to end (exclusive): values
+   * outside of this window are left unchanged. The current bitset is modified
+   * (and returned by the function)
+   */
+  changeInRange(otherbitmap: BitSet, start: number, end: number): this {
+    if (start < 0) start = 0;
+    if (start >= end) return this;
+    if (otherbitmap === this) {
+      this.removeRange(start, end);
+      return this;
+    }
+    if (
+      otherbitmap instanceof SparseTypedFastBitSet &&
+      otherbitmap.arraySize !== -1
+    ) {
+      const otherArray = otherbitmap.data;
+      for (let i = 0; i < otherbitmap.arraySize; i++) {
+        const index = otherArray[i];
+        if (index >= start && index < end) {
+          this.flip(index);
+        }
+      }
+      return this;
+    }
+    const otherWords = otherbitmap.words;
+    end = Math.min(end, otherWords.length << 5);
+    if (start >= end) return this;
+    if (this.arraySize !== -1) {
+      this.data = this.toBitset();
+      this.arraySize = -1;
+    }
+    this.resize(end - 1);
+    const words = this.data;
+    const firstword = start >>> 5;
+    const endword = (end - 1) >>> 5;
+    if (firstword === endword) {
+      words[firstword] ^= otherWords[firstword] & (~0 << start) & (~0 >>> -end);
+      return this;
+    }
+    words[firstword] ^= otherWords[firstword] & (~0 << start);
+    for (let k = firstword + 1; k < endword; ++k) {
+      words[k] ^= otherWords[k];
+    }
+    words[endword] ^= otherWords[endword] & (~0 >>> -end);
+    return this;
+  }
+
+  /**
+   * Removes the values outside of start (inclusive) to end (exclusive),
+   * the current bitset is modified (and returned by the function)
+   */
+  clip(start: number, end: number): this {
+    if (start < 0) start = 0;
+    if (this.arraySize !== -1) {
+      this.filterArray((value) => value >= start && value < end);
+      return this;
+    }
+    if (start >= end) {
+      this.data.fill(0);
+      return this;
+    }
+    this.removeRange(0, start);
+    this.removeRange(end, this.data.length << 5);
+    return this;
+  }
+
+  /**
+   * Adds n to every value (shifts the bits toward higher indexes),
+   * the current bitset is modified (and returned by the function)
+   */
+  shiftLeft(n: number): this {
+    if (n < 0) return this.shiftRight(-n);
+    if (n === 0) return this;
+    if (this.arraySize !== -1) {
+      const array = this.data;
+      for (let i = 0; i < this.arraySize; i++) {
+        array[i] += n;
+      }
+      return this;
+    }
+    let count = this.data.length;
+    while (count > 0 && this.data[count - 1] === 0) {
+      count--;
+    }
+    if (count === 0) return this;
+    this.resize((count << 5) - 1 + n);
+    const words = this.data;
+    const wordShift = n >>> 5;
+    const bitShift = n & 31;
+    if (bitShift === 0) {
+      words.copyWithin(wordShift, 0, count);
+    } else {
+      // from the top so that the source words are read before being overwritten
+      for (let k = count + wordShift; k > wordShift; k--) {
+        const source = k - wordShift;
+        words[k] =
+          (source < count ? words[source] << bitShift : 0) |
+          (words[source - 1] >>> (32 - bitShift));
+      }
+      words[wordShift] = words[0] << bitShift;
+    }
+    words.fill(0, 0, wordShift);
+    return this;
+  }
+
+  /**
+   * Subtracts n from every value, the values smaller than n are removed
+   * (shifts the bits toward lower indexes),
+   * the current bitset is modified (and returned by the function)
+   */
+  shiftRight(n: number): this {
+    if (n < 0) return this.shiftLeft(-n);
+    if (n === 0) return this;
+    if (this.arraySize !== -1) {
+      this.filterArray((value) => value >= n);
+      const array = this.data;
+      for (let i = 0; i < this.arraySize; i++) {
+        array[i] -= n;
+      }
+      return this;
+    }
+    const words = this.data;
+    const count = words.length;
+    if (n >= count << 5) {
+      words.fill(0, 0, count);
+      return this;
+    }
+    const wordShift = n >>> 5;
+    const bitShift = n & 31;
+    const newcount = count - wordShift;
+    if (bitShift === 0) {
+      words.copyWithin(0, wordShift, count);
+    } else {
+      for (let k = 0; k + 1 < newcount; ++k) {
+        words[k] =
+          (words[k + wordShift] >>> bitShift) |
+          (words[k + wordShift + 1] << (32 - bitShift));
+      }
+      words[newcount - 1] = words[count - 1] >>> bitShift;
+    }
+    words.fill(0, newcount, count);
+    return this;
+  }
+
+  /**
+   * Adds n to every value, a new bitmap is generated
+   */
+  new_shiftLeft(n: number): SparseTypedFastBitSet {
+    return this.clone().shiftLeft(n);
+  }
+
+  /**
+   * Subtracts n from every value (dropping the values smaller than n),
+   * a new bitmap is generated
+   */
+  new_shiftRight(n: number): SparseTypedFastBitSet {
+    return this.clone().shiftRight(n);
+  }
+
+  /**
+   * Rotates the values within [0, universeSize) by n positions: every value x
+   * becomes (x + n) modulo universeSize, n may be negative. The values outside
+   * of [0, universeSize) are removed.
+   * The current bitset is modified (and returned by the function)
+   */
+  rotate(n: number, universeSize: number): this {
+    this.clip(0, universeSize);
+    if (universeSize <= 0) return this;
+    const r = ((n % universeSize) + universeSize) % universeSize;
+    if (r === 0) return this;
+    // the values which wrap around
+    const wrapped = this.new_shiftRight(universeSize - r);
+    this.removeRange(universeSize - r, universeSize);
+    this.shiftLeft(r);
+    return this.union(wrapped);
+  }
+
+  /**
+   * @returns a new bitset holding the values from start (inclusive) to
+   * end (exclusive), shifted down by start
+   */
+  slice(start: number, end: number): SparseTypedFastBitSet {
+    if (start < 0) start = 0;
+    if (this.arraySize !== -1) {
+      const answer = new SparseTypedFastBitSet();
+      const array = this.data;
+      for (let i = 0; i < this.arraySize; i++) {
+        const index = array[i];
+        if (index >= start && index < end) {
+          answer.add(index - start);
+        }
+      }
+      return answer;
+    }
+    const words = this.data;
+    const c = words.length;
+    end = Math.min(end, c << 5);
+    if (start >= end) return new SparseTypedFastBitSet();
+    const length = end - start;
+    const count = (length + 31) >>> 5;
+    const newWords = new Uint32Array(count);
+    const wordShift = start >>> 5;
+    const bitShift = start & 31;
+    if (bitShift === 0) {
+      newWords.set(words.subarray(wordShift, wordShift + count));
+    } else {
+      for (let k = 0; k < count; ++k) {
+        const source = k + wordShift;
+        newWords[k] =
+          (words[source] >>> bitShift) |
+          (source + 1 < c ? words[source + 1] << (32 - bitShift) : 0);
+      }
+    }
+    if ((length & 31) !== 0) {
+      newWords[count - 1] &= ~0 >>> -length;
+    }
+    const answer = new SparseTypedFastBitSet(undefined, newWords);
+    answer.arraySize = -1;
+    return answer;
+  }
+
+  /**
+   * Adds the values of another bitset shifted up by offset (ORs the other
+   * bitset into this one at a bit offset), the values which would fall below 0
+   * are ignored. The current bitset is modified (and returned by the function)
+   */
+  appendAt(otherbitmap: BitSet, offset: number): this {
+    if (otherbitmap === this) {
+      otherbitmap = this.clone();
+    }
+    if (
+      otherbitmap instanceof SparseTypedFastBitSet &&
+      otherbitmap.arraySize !== -1
+    ) {
+      const otherArray = otherbitmap.data;
+      for (let i = 0; i < otherbitmap.arraySize; i++) {
+        const index = otherArray[i] + offset;
+        if (index >= 0) {
+          this.add(index);
+        }
+      }
+      return this;
+    }
+    if (offset < 0) {
+      return this.appendAt(otherbitmap.slice(-offset, Infinity), 0);
+    }
+    const otherWords = otherbitmap.words;
+    let oc = otherWords.length;
+    while (oc > 0 && otherWords[oc - 1] === 0) {
+      oc--;
+    }
+    if (oc === 0) return this;
+    if (this.arraySize !== -1) {
+      this.data = this.toBitset();
+      this.arraySize = -1;
+    }
+    this.resize((oc << 5) - 1 + offset);
+    const words = this.data;
+    const wordShift = offset >>> 5;
+    const bitShift = offset & 31;
+    if (bitShift === 0) {
+      for (let k = 0; k < oc; ++k) {
+        words[k + wordShift] |= otherWords[k];
+      }
+    } else {
+      for (let k = 0; k < oc; ++k) {
+        words[k + wordShift] |= otherWords[k] << bitShift;
+        words[k + wordShift + 1] |= otherWords[k] >>> (32 - bitShift);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Adds the values of another bitset shifted up by offset,
+   * a new bitmap is generated
+   */
+  concat(otherbitmap: BitSet, offset: number): SparseTypedFastBitSet {
+    return this.clone().appendAt(otherbitmap, offset);
+  }
+
+  /**
+   * Inserts count zero bits at position: the values greater or equal to
+   * position are shifted up by count,
+   * the current bitset is modified (and returned by the function)
+   */
+  insertBits(position: number, count: number): this {
+    if (position < 0) position = 0;
+    if (count <= 0) return this;
+    if (this.arraySize !== -1) {
+      const array = this.data;
+      for (let i = 0; i < this.arraySize; i++) {
+        if (array[i] >= position) {
+          array[i] += count;
+        }
+      }
+      return this;
+    }
+    const high = this.slice(position, Infinity);
+    this.removeRange(position, this.data.length << 5);
+    return this.appendAt(high, position + count);
+  }
+
+  /**
+   * Deletes the count bits starting at position: the values in
+   * [position, position + count) are removed and the larger values are
+   * shifted down by count,
+   * the current bitset is modified (and returned by the function)
+   */
+  deleteBits(position: number, count: number): this {
+    if (position < 0) position = 0;
+    if (count <= 0) return this;
+    if (this.arraySize !== -1) {
+      const end = position + count;
+      this.filterArray((value) => value < position || value >= end);
+      const array = this.data;
+      for (let i = 0; i < this.arraySize; i++) {
+        if (array[i] >= end) {
+          array[i] -= count;
+        }
+      }
+      return this;
+    }
+    const high = this.slice(position + count, Infinity);
+    this.removeRange(position, this.data.length << 5);
+    return this.appendAt(high, position);
+  }
+
+  /**
+   * @returns a new bitset holding mapping[x] (or mapping(x)) for every value x,
+   * the values mapped to a negative number are dropped. Pass monotone = true
+   * when the mapping never decreases: the result is then allocated once.
+   */
+  remap(
+    mapping: Uint32Array | ((index: number) => number),
+    monotone = false
+  ): SparseTypedFastBitSet {
+    const map =
+      typeof mapping === "function"
+        ? mapping
+        : (index: number) => mapping[index];
+    const max = monotone && this.arraySize === -1 ? this.max() : -1;
+    // the largest value is mapped last: when it is dropped, the size of the
+    // result is unknown and the values are added one by one
+    const top = max === -1 ? -1 : map(max);
+    if (Number.isFinite(top) && top >= 0) {
+      const answerWords = new Uint32Array((top + 32) >>> 5);
+      const words = this.data;
+      const c = words.length;
+      for (let k = 0; k < c; ++k) {
+        let w = words[k];
+        while (w != 0) {
+          const t = w & -w;
+          const index = map(((k << 5) + hammingWeight(t - 1)) | 0);
+          if (index >= 0) {
+            answerWords[index >>> 5] |= 1 << index;
+          }
+          w ^= t;
+        }
+      }
+      const answer = new SparseTypedFastBitSet(undefined, answerWords);
+      answer.arraySize = -1;
+      return answer;
+    }
+    const answer = new SparseTypedFastBitSet();
+    this.forEach((index) => {
+      const mapped = map(index);
+      if (mapped >= 0) {
+        answer.add(mapped);
+      }
+    });
+    return answer;
+  }
+
+  /**
+   * Extracts the bits found at the positions set in mask (PEXT): the bit at the
+   * i-th position of mask becomes bit i of the result. In other words, every
+   * value x which is also in mask is renumbered to its rank within mask, the
+   * values which are not in mask are dropped.
+   * @returns a new bitset
+   */
+  project(mask: BitSet): SparseTypedFastBitSet {
+    if (this.arraySize !== -1) {
+      const answer = new SparseTypedFastBitSet();
+      const array = this.data;
+      for (let i = 0; i < this.arraySize; i++) {
+        const index = array[i];
+        if (mask.has(index)) {
+          answer.add(mask.rank(index));
+        }
+      }
+      return answer;
+    }
+    const words = this.data;
+    const maskWords = mask.words;
+    const mcount = Math.min(words.length, maskWords.length);
+    let total = 0;
+    for (let k = 0; k < mcount; ++k) {
+      total += hammingWeight(maskWords[k]);
+    }
+    const answerWords = new Uint32Array((total + 31) >>> 5);
+    let offset = 0;
+    for (let k = 0; k < mcount; ++k) {
+      const m = maskWords[k];
+      let w = words[k] & m;
+      if (w !== 0) {
+        // packs the bits of w found at the positions set in m
+        let packed = w;
+        if (~m !== 0) {
+          packed = 0;
+          while (w !== 0) {
+            const t = w & -w;
+            packed |= 1 << hammingWeight(m & (t - 1));
+            w ^= t;
+          }
+        }
+        const shift = offset & 31;
+        const position = offset >>> 5;
+        answerWords[position] |= packed << shift;
+        if (shift !== 0 && packed >>> (32 - shift) !== 0) {
+          answerWords[position + 1] |= packed >>> (32 - shift);
+        }
+      }
+      offset += hammingWeight(m);
+    }
+    const answer = new SparseTypedFastBitSet(undefined, answerWords);
+    answer.arraySize = -1;
+    return answer;
+  }
+
+  /**
+   * Same as project(mask): every value x which is also in mask is renumbered
+   * to its rank within mask, the values which are not in mask are dropped.
+   * @returns a new bitset
+   */
+  compactAgainst(mask: BitSet): SparseTypedFastBitSet {
+    return this.project(mask);
+  }
+
+  /**
+   * Scatters the bits onto the positions set in mask (PDEP), the inverse of
+   * project(mask): bit i becomes the bit at the i-th position of mask. The
+   * values greater or equal to the size of mask are dropped.
+   * @returns a new bitset
+   */
+  expand(mask: BitSet): SparseTypedFastBitSet {
+    if (this.arraySize !== -1) {
+      const answer = new SparseTypedFastBitSet();
+      const maskSize = mask.size();
+      const array = this.data;
+      for (let i = 0; i < this.arraySize; i++) {
+        const index = array[i];
+        if (index < maskSize) {
+          answer.add(mask.select(index));
+        }
+      }
+      return answer;
+    }
+    const maskWords = mask.words;
+    const mc = maskWords.length;
+    const words = this.data;
+    const c = words.length;
+    const answerWords = new Uint32Array(mc);
+    let offset = 0; // first bit of this deposited in the current mask word
+    for (let k = 0; k < mc; ++k) {
+      const m = maskWords[k];
+      if (m === 0) continue;
+      const position = offset >>> 5;
+      if (position >= c) break;
+      const shift = offset & 31;
+      let source = words[position] >>> shift;
+      if (shift !== 0 && position + 1 < c) {
+        source |= words[position + 1] << (32 - shift);
+      }
+      if (~m === 0) {
+        answerWords[k] = source;
+      } else {
+        let deposited = 0;
+        let w = m;
+        while (w !== 0 && source !== 0) {
+          const t = w & -w;
+          if ((source & 1) !== 0) {
+            deposited |= t;
+          }
+          source >>>= 1;
+          w ^= t;
+        }
+        answerWords[k] = deposited;
+      }
+      offset += hammingWeight(m);
+    }
+    const answer = new SparseTypedFastBitSet(undefined, answerWords);
+    answer.arraySize = -1;
+    return answer;
+  }
+
+  /**
+   * Computes the complement of this bitset within [0, universeSize),
+   * the current bitset is modified (and returned by the function)
+   */
+  complement(universeSize: number): this {
+    if (universeSize < 0) universeSize = 0;
+    const count = (universeSize + 31) >>> 5;
+    if (this.words.length < count) {
+      this.resize(universeSize - 1);
+    }
+    const words = this.data;
+    for (let k = 0; k < count; ++k) {
+      words[k] = ~words[k];
+    }
+    if ((universeSize & 31) !== 0) {
+      words[count - 1] &= ~0 >>> -universeSize;
+    }
+    words.fill(0, count);
+    return this;
+  }
+
+  /**
+   * Computes the complement of this bitset within [0, universeSize),
+   * a new bitmap is generated
+   */
+  new_complement(universeSize: number): SparseTypedFastBitSet {
+    const words = this.arraySize === -1 ? this.data : this.toBitset();
+    if (universeSize < 0) universeSize = 0;
+    const count = (universeSize + 31) >>> 5;
+    const mcount = Math.min(words.length, count);
+    const newWords = new Uint32Array(count);
+    for (let k = 0; k < mcount; ++k) {
+      newWords[k] = ~words[k];
+    }
+    newWords.fill(~0, mcount);
+    if ((universeSize & 31) !== 0) {
+      newWords[count - 1] &= ~0 >>> -universeSize;
+    }
+    const answer = new SparseTypedFastBitSet(undefined, newWords);
+    answer.arraySize = -1;
+    return answer;
+  }
+
   /**
    * @returns a string representation
    */
@@ -1476,4 +3181,19 @@ export class SparseTypedFastBitSet implements BitSet {
       }
     }
   }
+
+  /**
+   * @returns true if set is a SparseTypedFastBitSet storing its values as an
+   * array (reading its words would convert it to a bitset)
+   */
+  static isArray(set: BitSet): set is SparseTypedFastBitSet {
+    return set instanceof SparseTypedFastBitSet && set.arraySize !== -1;
+  }
+
+  // upper bound of the number of values, used to process small bitsets first
+  private static estimate(set: BitSet): number {
+    return SparseTypedFastBitSet.isArray(set)
+      ? set.arraySize
+      : set.words.length << 5;
+  }
 }
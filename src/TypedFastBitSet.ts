@@ -37,7 +37,9 @@
  *   npm install typedfastbitset
  */
 
-import { BitSet } from "./utils";
+import { BitSetCursor, CursorOptions } from "./BitSetCursor";
+import { SparseTypedFastBitSet } from "./SparseTypedFastBitSet";
+import { BitSet, BitSetRelation } from "./utils";
 
 // Local copies of hammingWeight to avoid module import indirection
 // (V8 inlines local functions much better than (0, module.fn)() calls)
@@ -90,6 +92,9 @@ export class TypedFastBitSet implements BitSet {
   // Logical word count. May be less than words.length due to buffer overallocation.
   // Words beyond _count are guaranteed to be zero.
   _count: number;
+  // Incremented by every method modifying the values, so that structures
+  // derived from the bitset (RankSelectIndex) can tell that they are stale.
+  _version = 0;
 
   constructor(iterable?: Iterable<number> | null, words?: Uint32Array) {
     if (words) {
@@ -113,10 +118,265 @@ export class TypedFastBitSet implements BitSet {
     return new TypedFastBitSet(undefined, words);
   }
 
+  /**
+   * @returns a new TypedFastBitset containing the [start, end) ranges
+   */
+  static fromRanges(ranges: Iterable<[number, number]>): TypedFastBitSet {
+    const answer = new TypedFastBitSet();
+    for (const [start, end] of ranges) {
+      answer.addRange(start, end);
+    }
+    return answer;
+  }
+
+  /**
+   * Computes the union of all the bitsets in a single pass,
+   * a new bitmap is generated
+   */
+  static unionAll(...sets: BitSet[]): TypedFastBitSet {
+    let count = 0;
+    for (const set of sets) {
+      count = Math.max(count, wc(set));
+    }
+    const words = new Uint32Array(count);
+    for (const set of sets) {
+      const setWords = set.words;
+      const c = wc(set);
+      for (let k = 0; k < c; ++k) {
+        words[k] |= setWords[k];
+      }
+    }
+    return new TypedFastBitSet(undefined, words);
+  }
+
+  /**
+   * Computes the intersection of all the bitsets, starting from the one with
+   * the fewest words and stopping as soon as the result is empty,
+   * a new bitmap is generated. When there are SparseTypedFastBitSet inputs,
+   * the values of the smallest array are probed instead, as in
+   * SparseTypedFastBitSet.intersectionAll, so that arrays are never turned
+   * into words.
+   */
+  static intersectionAll(...sets: BitSet[]): TypedFastBitSet {
+    if (sets.length === 0) return new TypedFastBitSet();
+    if (sets.some((set) => set instanceof SparseTypedFastBitSet)) {
+      const answer = SparseTypedFastBitSet.intersectionAll(...sets);
+      return TypedFastBitSet.fromWords(answer.words);
+    }
+    const ordered = sets.slice().sort((a, b) => wc(a) - wc(b));
+    let count = wc(ordered[0]);
+    const words = ordered[0].words.slice(0, count);
+    for (let i = 1; i < ordered.length && count > 0; i++) {
+      const setWords = ordered[i].words;
+      let newcount = 0; // up to the last non-empty word
+      for (let k = 0; k < count; ++k) {
+        const w = words[k] & setWords[k];
+        words[k] = w;
+        if (w !== 0) newcount = k + 1;
+      }
+      count = newcount;
+    }
+    return new TypedFastBitSet(undefined, words);
+  }
+
+  /**
+   * Computes the values present in an odd number of the bitsets (XOR) in a
+   * single pass, a new bitmap is generated
+   */
+  static xorAll(...sets: BitSet[]): TypedFastBitSet {
+    let count = 0;
+    for (const set of sets) {
+      count = Math.max(count, wc(set));
+    }
+    const words = new Uint32Array(count);
+    for (const set of sets) {
+      const setWords = set.words;
+      const c = wc(set);
+      for (let k = 0; k < c; ++k) {
+        words[k] ^= setWords[k];
+      }
+    }
+    return new TypedFastBitSet(undefined, words);
+  }
+
+  /**
+   * Computes the size of the union of all the bitsets without creating it
+   */
+  static unionAll_size(...sets: BitSet[]): number {
+    const allWords = sets.map((set) => set.words);
+    const counts = sets.map(wc);
+    let count = 0;
+    for (const c of counts) {
+      count = Math.max(count, c);
+    }
+    let answer = 0;
+    for (let k = 0; k < count; ++k) {
+      let w = 0;
+      for (let i = 0; i < allWords.length; i++) {
+        if (k < counts[i]) w |= allWords[i][k];
+      }
+      answer += hammingWeight(w);
+    }
+    return answer;
+  }
+
+  /**
+   * Computes the size of the intersection of all the bitsets without creating
+   * it (with SparseTypedFastBitSet inputs, see intersectionAll)
+   */
+  static intersectionAll_size(...sets: BitSet[]): number {
+    if (sets.length === 0) return 0;
+    if (sets.some((set) => set instanceof SparseTypedFastBitSet)) {
+      return SparseTypedFastBitSet.intersectionAll_size(...sets);
+    }
+    const ordered = sets.slice().sort((a, b) => wc(a) - wc(b));
+    const allWords = ordered.map((set) => set.words);
+    const count = wc(ordered[0]);
+    let answer = 0;
+    for (let k = 0; k < count; ++k) {
+      let w = allWords[0][k];
+      for (let i = 1; i < allWords.length && w !== 0; i++) {
+        w &= allWords[i][k];
+      }
+      answer += hammingWeight(w);
+    }
+    return answer;
+  }
+
+  /**
+   * Computes the size of the XOR of all the bitsets without creating it
+   */
+  static xorAll_size(...sets: BitSet[]): number {
+    const allWords = sets.map((set) => set.words);
+    const counts = sets.map(wc);
+    let count = 0;
+    for (const c of counts) {
+      count = Math.max(count, c);
+    }
+    let answer = 0;
+    for (let k = 0; k < count; ++k) {
+      let w = 0;
+      for (let i = 0; i < allWords.length; i++) {
+        if (k < counts[i]) w ^= allWords[i][k];
+      }
+      answer += hammingWeight(w);
+    }
+    return answer;
+  }
+
+  /**
+   * Computes base.intersection_size(facet) for every facet, in one array.
+   * The words where base is zero are found once and skipped for all the
+   * facets. SparseTypedFastBitSet instances storing an array are probed with
+   * their values instead (and, as a base, probe every facet).
+   */
+  static intersectionSizes(base: BitSet, facets: BitSet[]): Uint32Array {
+    const answer = new Uint32Array(facets.length);
+    if (SparseTypedFastBitSet.isArray(base)) {
+      for (let i = 0; i < facets.length; i++) {
+        answer[i] = base.intersection_size(facets[i]);
+      }
+      return answer;
+    }
+    const words = base.words;
+    const count = wc(base);
+    // indexes of the nonzero words of base, in increasing order
+    const nonzero = new Uint32Array(count);
+    let n = 0;
+    for (let k = 0; k < count; ++k) {
+      if (words[k] !== 0) nonzero[n++] = k;
+    }
+    for (let i = 0; i < facets.length; i++) {
+      const facet = facets[i];
+      if (SparseTypedFastBitSet.isArray(facet)) {
+        answer[i] = facet.intersection_size(base);
+        continue;
+      }
+      const facetWords = facet.words;
+      const facetCount = wc(facet);
+      let size = 0;
+      for (let j = 0; j < n; j++) {
+        const k = nonzero[j];
+        if (k >= facetCount) break;
+        size += hammingWeight(words[k] & facetWords[k]);
+      }
+      answer[i] = size;
+    }
+    return answer;
+  }
+
+  /**
+   * Computes the values present in at least k of the bitsets (k smaller than
+   * 1 behaves as 1), a new bitmap is generated.
+   * The bitsets are counted word by word with bit-sliced vertical counters.
+   */
+  static atLeast(k: number, sets: BitSet[]): TypedFastBitSet {
+    return TypedFastBitSet.threshold(k, sets, false);
+  }
+
+  /**
+   * Computes the values present in exactly k of the bitsets (empty when k is
+   * smaller than 1), a new bitmap is generated.
+   * The bitsets are counted word by word with bit-sliced vertical counters.
+   */
+  static exactly(k: number, sets: BitSet[]): TypedFastBitSet {
+    return TypedFastBitSet.threshold(k, sets, true);
+  }
+
+  private static threshold(
+    k: number,
+    sets: BitSet[],
+    exact: boolean,
+  ): TypedFastBitSet {
+    const n = sets.length;
+    if (k < 1) {
+      if (exact) return new TypedFastBitSet();
+      k = 1;
+    }
+    if (k > n) return new TypedFastBitSet();
+    const allWords = sets.map((set) => set.words);
+    const counts = sets.map(wc);
+    let count = 0;
+    for (const c of counts) {
+      count = Math.max(count, c);
+    }
+    // planes[j] holds bit j of the 32 counters of the current word
+    const planes = new Int32Array(32 - Math.clz32(n));
+    const b = planes.length;
+    const words = new Uint32Array(count);
+    for (let w = 0; w < count; ++w) {
+      planes.fill(0);
+      for (let i = 0; i < n; i++) {
+        if (w >= counts[i]) continue;
+        // ripple-carry addition of one bit to every counter
+        let carry = allWords[i][w];
+        for (let j = 0; carry !== 0 && j < b; j++) {
+          const t = planes[j] & carry;
+          planes[j] ^= carry;
+          carry = t;
+        }
+      }
+      // compares the counters with k, from the most significant bit
+      let greater = 0;
+      let equal = ~0;
+      for (let j = b - 1; j >= 0; j--) {
+        if (((k >>> j) & 1) !== 0) {
+          equal &= planes[j];
+        } else {
+          greater |= equal & planes[j];
+          equal &= ~planes[j];
+        }
+      }
+      words[w] = exact ? equal : greater | equal;
+    }
+    return new TypedFastBitSet(undefined, words);
+  }
+
   /**
    * Add the value (Set the bit at index to true)
    */
   add(index: number): void {
+    this._version++;
     this.resize(index);
     this.words[index >>> 5] |= 1 << index;
   }
@@ -125,6 +385,7 @@ export class TypedFastBitSet implements BitSet {
    *  If the value was not in the set, add it, otherwise remove it (flip bit at index)
    */
   flip(index: number): void {
+    this._version++;
     this.resize(index);
     this.words[index >>> 5] ^= 1 << index;
   }
@@ -133,6 +394,7 @@ export class TypedFastBitSet implements BitSet {
    * Remove all values, reset memory usage
    */
   clear(): void {
+    this._version++;
     this.words = new Uint32Array(8);
     this._count = 0;
   }
@@ -141,6 +403,7 @@ export class TypedFastBitSet implements BitSet {
    * Set the bit at index to false
    */
   remove(index: number): void {
+    this._version++;
     this.resize(index);
     this.words[index >>> 5] &= ~(1 << index);
   }
@@ -149,6 +412,7 @@ export class TypedFastBitSet implements BitSet {
    * Set bits from start (inclusive) to end (exclusive)
    */
   addRange(start: number, end: number): void {
+    this._version++;
     if (start >= end) {
       return;
     }
@@ -170,13 +434,39 @@ export class TypedFastBitSet implements BitSet {
     words[endword] |= ~0 >>> -end;
   }
 
+  /**
+   * Flip bits from start (inclusive) to end (exclusive)
+   */
+  flipRange(start: number, end: number): void {
+    this._version++;
+    if (start >= end) {
+      return;
+    }
+
+    this.resize(end - 1);
+    const words = this.words;
+
+    const firstword = start >> 5;
+    const endword = (end - 1) >> 5;
+
+    if (firstword === endword) {
+      words[firstword] ^= (~0 << start) & (~0 >>> -end);
+      return;
+    }
+    words[firstword] ^= ~0 << start;
+    for (let k = firstword + 1; k < endword; ++k) {
+      words[k] = ~words[k];
+    }
+    words[endword] ^= ~0 >>> -end;
+  }
+
   /**
    * Remove bits from start (inclusive) to end (exclusive)
    */
   removeRange(start: number, end: number): void {
+    this._version++;
     const words = this.words;
-    start = Math.min(start, (this._count << 5) - 1);
-    end = Math.min(end, (this._count << 5) - 1);
+    end = Math.min(end, this._count << 5);
 
     if (start >= end) {
       return;
@@ -216,26 +506,83 @@ export class TypedFastBitSet implements BitSet {
    * Is any value of the (exclusive) range contained in the set?
    */
   hasAnyInRange(start: number, end: number): boolean {
+    if (start < 0) start = 0;
+    end = Math.min(end, this._count << 5);
     if (start >= end) return false;
     const words = this.words;
-    start = Math.min(start, (this._count << 5) - 1);
-    end = Math.min(end, (this._count << 5) - 1);
     const firstword = start >>> 5;
-    const endword = (end - 1) >> 5;
+    const endword = (end - 1) >>> 5;
     if (firstword === endword)
       return (words[firstword] & ((~0 << start) & (~0 >>> -end))) !== 0;
     if ((words[firstword] & (~0 << start)) !== 0) return true;
-    for (let index = firstword + 1; index < endword - 1; index++)
+    for (let index = firstword + 1; index < endword; index++)
       if (words[index] !== 0) return true;
     return (words[endword] & (~0 >>> -end)) !== 0;
   }
 
+  /**
+   * Are all values of the (exclusive) range contained in the set?
+   * An empty range always returns true.
+   */
+  hasAllInRange(start: number, end: number): boolean {
+    if (start < 0) start = 0;
+    if (start >= end) return true;
+    if (end > this._count << 5) return false;
+    const words = this.words;
+    const firstword = start >>> 5;
+    const endword = (end - 1) >>> 5;
+    if (firstword === endword) {
+      const mask = (~0 << start) & (~0 >>> -end);
+      return (words[firstword] & mask) === mask;
+    }
+    if ((~words[firstword] & (~0 << start)) !== 0) return false;
+    for (let index = firstword + 1; index < endword; index++)
+      if (~words[index] !== 0) return false;
+    return (~words[endword] & (~0 >>> -end)) === 0;
+  }
+
+  /**
+   * Is no value of the (exclusive) range contained in the set?
+   */
+  isRangeEmpty(start: number, end: number): boolean {
+    return !this.hasAnyInRange(start, end);
+  }
+
+  /**
+   * @returns How many values of the (exclusive) range are contained in the set?
+   */
+  countRange(start: number, end: number): number {
+    if (start < 0) start = 0;
+    end = Math.min(end, this._count << 5);
+    if (start >= end) return 0;
+    const words = this.words;
+    const firstword = start >>> 5;
+    const endword = (end - 1) >>> 5;
+    if (firstword === endword)
+      return hammingWeight(words[firstword] & (~0 << start) & (~0 >>> -end));
+    let answer = hammingWeight(words[firstword] & (~0 << start));
+    let k = firstword + 1;
+    for (; k + 4 < endword; k += 4) {
+      answer += hammingWeight4(
+        words[k] | 0,
+        words[k + 1] | 0,
+        words[k + 2] | 0,
+        words[k + 3] | 0,
+      );
+    }
+    for (; k < endword; ++k) {
+      answer += hammingWeight(words[k] | 0);
+    }
+    return answer + hammingWeight(words[endword] & (~0 >>> -end));
+  }
+
   /**
    * Tries to add the value (Set the bit at index to true)
    *
    * @returns 1 if the value was added, 0 if the value was already present
    */
   checkedAdd(index: number): 0 | 1 {
+    this._version++;
     this.resize(index);
     const words = this.words;
     const word = words[index >>> 5];
@@ -248,6 +595,7 @@ export class TypedFastBitSet implements BitSet {
    * Reduce the memory usage to a minimum
    */
   trim(): void {
+    this._version++;
     let nl = this._count;
     while (nl > 0 && this.words[nl - 1] === 0) {
       nl--;
@@ -302,6 +650,21 @@ export class TypedFastBitSet implements BitSet {
     }
   }
 
+  // Prepares out to receive count words computed by one of the *Into methods:
+  // the buffer is reused when it is large enough, and the words left over from
+  // the previous content are cleared. Callers must read the words of the
+  // operands before calling, since out may be one of them.
+  private static output(out: TypedFastBitSet, count: number): Uint32Array {
+    out._version++;
+    if (count > out.words.length) {
+      out.words = new Uint32Array(count);
+    } else {
+      out.words.fill(0, count, out._count);
+    }
+    out._count = count;
+    return out.words;
+  }
+
   /**
    * @returns How many values stored in the set? How many set bits?
    */
@@ -325,6 +688,153 @@ export class TypedFastBitSet implements BitSet {
     return answer;
   }
 
+  /**
+   * @returns the number of set bits strictly below index
+   */
+  rank(index: number): number {
+    if (index <= 0) return 0;
+    if (index >= this._count << 5) return this.size();
+    const words = this.words;
+    const endword = index >>> 5;
+    let answer = 0;
+    let k = 0 | 0;
+    for (; k + 4 < endword; k += 4) {
+      answer += hammingWeight4(
+        words[k] | 0,
+        words[k + 1] | 0,
+        words[k + 2] | 0,
+        words[k + 3] | 0,
+      );
+    }
+    for (; k < endword; ++k) {
+      answer += hammingWeight(words[k] | 0);
+    }
+    return answer + hammingWeight(words[endword] & ((1 << index) - 1));
+  }
+
+  /**
+   * @returns the k-th smallest value (starting from k = 0), or -1 if there are
+   * not enough values in the set
+   */
+  select(k: number): number {
+    if (k < 0) return -1;
+    const words = this.words;
+    const c = this._count;
+    let i = 0 | 0;
+    // skip whole blocks of four words at a time
+    for (; i + 4 < c; i += 4) {
+      const count = hammingWeight4(
+        words[i] | 0,
+        words[i + 1] | 0,
+        words[i + 2] | 0,
+        words[i + 3] | 0,
+      );
+      if (k < count) break;
+      k -= count;
+    }
+    for (; i < c; ++i) {
+      let w = words[i];
+      const count = hammingWeight(w | 0);
+      if (k < count) {
+        for (; k > 0; --k) {
+          w &= w - 1;
+        }
+        return (i << 5) + (31 - Math.clz32(w & -w));
+      }
+      k -= count;
+    }
+    return -1;
+  }
+
+  /**
+   * @returns the smallest value larger or equal to index, or -1 if there is none
+   */
+  nextSetBit(index: number): number {
+    if (index < 0) index = 0;
+    const words = this.words;
+    const c = this._count;
+    if (index >= c << 5) return -1;
+    let k = index >>> 5;
+    let w = words[k] & (~0 << index);
+    while (w === 0) {
+      if (++k >= c) return -1;
+      w = words[k];
+    }
+    return (k << 5) + (31 - Math.clz32(w & -w));
+  }
+
+  /**
+   * @returns the largest value smaller or equal to index, or -1 if there is none
+   */
+  previousSetBit(index: number): number {
+    if (index < 0) return -1;
+    const words = this.words;
+    const c = this._count;
+    let k: number;
+    let w: number;
+    if (index >= c << 5) {
+      k = c - 1;
+      if (k < 0) return -1;
+      w = words[k];
+    } else {
+      k = index >>> 5;
+      w = words[k] & (~0 >>> (31 - (index & 31)));
+    }
+    while (w === 0) {
+      if (--k < 0) return -1;
+      w = words[k];
+    }
+    return (k << 5) + (31 - Math.clz32(w));
+  }
+
+  /**
+   * @returns the smallest value larger or equal to index that is not in the set
+   */
+  nextClearBit(index: number): number {
+    if (index < 0) index = 0;
+    const words = this.words;
+    const c = this._count;
+    if (index >= c << 5) return index;
+    let k = index >>> 5;
+    let w = ~words[k] & (~0 << index);
+    while (w === 0) {
+      if (++k >= c) return k << 5;
+      w = ~words[k];
+    }
+    return (k << 5) + (31 - Math.clz32(w & -w));
+  }
+
+  /**
+   * @returns the largest value smaller or equal to index that is not in the set,
+   * or -1 if there is none
+   */
+  previousClearBit(index: number): number {
+    if (index < 0) return -1;
+    if (index >= this._count << 5) return index;
+    const words = this.words;
+    let k = index >>> 5;
+    let w = ~words[k] & (~0 >>> (31 - (index & 31)));
+    while (w === 0) {
+      if (--k < 0) return -1;
+      w = ~words[k];
+    }
+    return (k << 5) + (31 - Math.clz32(w));
+  }
+
+  /**
+   * @returns the smallest value in the set, or -1 if the set is empty
+   */
+  min(): number {
+    return this.nextSetBit(0);
+  }
+
+  /**
+   * @returns the largest value in the set, or -1 if the set is empty
+   */
+  max(): number {
+    return this.previousSetBit((this._count << 5) - 1);
+  }
+
   /**
    * @returns an array with the set bit locations (values)
    */
@@ -343,6 +853,42 @@ export class TypedFastBitSet implements BitSet {
     return answer;
   }
 
+  /**
+   * Fills buffer with the set bit locations (values) larger or equal to
+   * fromIndex, in increasing order, until the buffer is full. To continue,
+   * call again with fromIndex set to the last value written plus one.
+   *
+   * @returns the number of values written
+   */
+  nextMany(buffer: Uint32Array, fromIndex = 0): number {
+    if (fromIndex < 0) fromIndex = 0;
+    const capacity = buffer.length;
+    const c = this._count;
+    if (capacity === 0 || fromIndex >= c << 5) return 0;
+    const words = this.words;
+    let pos = 0 | 0;
+    let k = fromIndex >>> 5;
+    let w = words[k] & (~0 << fromIndex);
+    for (;;) {
+      while (w !== 0) {
+        buffer[pos++] = (k << 5) + (31 - Math.clz32(w & -w));
+        if (pos === capacity) return pos;
+        w &= w - 1;
+      }
+      if (++k >= c) return pos;
+      w = words[k];
+    }
+  }
+
+  /**
+   * @returns a Uint32Array with the set bit locations (values) in increasing order
+   */
+  toUint32Array(): Uint32Array {
+    const answer = new Uint32Array(this.size());
+    this.nextMany(answer);
+    return answer;
+  }
+
   forEach(fnc: (id: number) => void): void {
     const words = this.words;
     const c = this._count;
@@ -386,6 +932,37 @@ export class TypedFastBitSet implements BitSet {
     };
   }
 
+  /**
+   * Iterator of the maximal runs of consecutive values, as [start, end) pairs
+   */
+  ranges(): IterableIterator<[number, number]> {
+    const bitset = this;
+    let pos = 0;
+
+    return {
+      [Symbol.iterator]() {
+        return this;
+      },
+      next() {
+        const start = bitset.nextSetBit(pos);
+        if (start === -1) {
+          return { done: true, value: undefined };
+        }
+        pos = bitset.nextClearBit(start);
+        const value: [number, number] = [start, pos];
+        return { done: false, value };
+      },
+    };
+  }
+
+  /**
+   * @returns a cursor over the set bit locations (values), which can skip ahead,
+   * iterate in reverse and be restricted to a [start, end) window
+   */
+  cursor(options?: CursorOptions): BitSetCursor {
+    return new BitSetCursor(this, options);
+  }
+
   /**
    * @returns a copy of this bitmap
    */
@@ -412,6 +989,7 @@ export class TypedFastBitSet implements BitSet {
    * the current bitmap is modified (and returned by the function)
    */
   intersection(otherbitmap: BitSet): this {
+    this._version++;
     const words = this.words;
     const otherWords = otherbitmap.words;
     const oc = wc(otherbitmap);
@@ -478,6 +1056,22 @@ export class TypedFastBitSet implements BitSet {
     return new TypedFastBitSet(undefined, newWords);
   }
 
+  /**
+   * Computes the intersection between this bitset and another one into out,
+   * reusing its buffer when it is large enough; out may be this or the other
+   * bitset. Returns out.
+   */
+  intersectionInto(otherbitmap: BitSet, out: TypedFastBitSet): TypedFastBitSet {
+    const words = this.words;
+    const otherWords = otherbitmap.words;
+    const count = Math.min(this._count, wc(otherbitmap));
+    const newWords = TypedFastBitSet.output(out, count);
+    for (let k = 0; k < count; ++k) {
+      newWords[k] = words[k] & otherWords[k];
+    }
+    return out;
+  }
+
   /**
    * Computes the intersection between this bitset and another one,
    * the current bitmap is modified
@@ -504,21 +1098,220 @@ export class TypedFastBitSet implements BitSet {
   }
 
   /**
-   * Computes the difference between this bitset and another one,
-   * the current bitset is modified (and returned by the function)
+   * Check if every value of this bitset is also in the other one,
+   * no bitmap is modified
    */
-  difference(otherbitmap: BitSet): this {
+  isSubsetOf(otherbitmap: BitSet): boolean {
     const words = this.words;
     const otherWords = otherbitmap.words;
-    const newcount = Math.min(this._count, wc(otherbitmap));
-    let k = 0 | 0;
-    for (; k + 7 < newcount; k += 8) {
-      words[k] &= ~otherWords[k];
-      words[k + 1] &= ~otherWords[k + 1];
-      words[k + 2] &= ~otherWords[k + 2];
-      words[k + 3] &= ~otherWords[k + 3];
-      words[k + 4] &= ~otherWords[k + 4];
-      words[k + 5] &= ~otherWords[k + 5];
+    const tc = this._count;
+    const mcount = Math.min(tc, wc(otherbitmap));
+    for (let k = 0 | 0; k < mcount; ++k) {
+      if ((words[k] & ~otherWords[k]) !== 0) return false;
+    }
+    for (let k = mcount; k < tc; ++k) {
+      if (words[k] != 0) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Check if every value of the other bitset is also in this one,
+   * no bitmap is modified
+   */
+  isSupersetOf(otherbitmap: BitSet): boolean {
+    return otherbitmap.isSubsetOf(this);
+  }
+
+  /**
+   * Check if this bitset is a subset of the other one and they are not equal,
+   * no bitmap is modified
+   */
+  isProperSubsetOf(otherbitmap: BitSet): boolean {
+    const words = this.words;
+    const otherWords = otherbitmap.words;
+    const tc = this._count;
+    const oc = wc(otherbitmap);
+    const mcount = Math.min(tc, oc);
+    let otherOnly = 0;
+    for (let k = 0 | 0; k < mcount; ++k) {
+      const w = words[k];
+      const o = otherWords[k];
+      if ((w & ~o) !== 0) return false;
+      otherOnly |= o & ~w;
+    }
+    for (let k = mcount; k < tc; ++k) {
+      if (words[k] != 0) return false;
+    }
+    for (let k = mcount; k < oc; ++k) {
+      otherOnly |= otherWords[k];
+    }
+    return otherOnly !== 0;
+  }
+
+  /**
+   * Check if this bitset and the other one have no value in common,
+   * no bitmap is modified
+   */
+  isDisjointFrom(otherbitmap: BitSet): boolean {
+    return !this.intersects(otherbitmap);
+  }
+
+  /**
+   * Compares this bitset with the other one in a single pass,
+   * no bitmap is modified
+   * @returns EQUAL, SUBSET (proper subset), SUPERSET (proper superset),
+   * DISJOINT or OVERLAP, checked in this order
+   */
+  relationTo(otherbitmap: BitSet): BitSetRelation {
+    const words = this.words;
+    const otherWords = otherbitmap.words;
+    const tc = this._count;
+    const oc = wc(otherbitmap);
+    const mcount = Math.min(tc, oc);
+    let thisOnly = 0;
+    let otherOnly = 0;
+    let common = 0;
+    for (let k = 0 | 0; k < mcount; ++k) {
+      const w = words[k];
+      const o = otherWords[k];
+      thisOnly |= w & ~o;
+      otherOnly |= o & ~w;
+      common |= w & o;
+      if (thisOnly !== 0 && otherOnly !== 0 && common !== 0) {
+        return BitSetRelation.OVERLAP;
+      }
+    }
+    for (let k = mcount; k < tc; ++k) {
+      thisOnly |= words[k];
+    }
+    for (let k = mcount; k < oc; ++k) {
+      otherOnly |= otherWords[k];
+    }
+    if (thisOnly === 0) {
+      return otherOnly === 0 ? BitSetRelation.EQUAL : BitSetRelation.SUBSET;
+    }
+    if (otherOnly === 0) return BitSetRelation.SUPERSET;
+    return common === 0 ? BitSetRelation.DISJOINT : BitSetRelation.OVERLAP;
+  }
+
+  /**
+   * Computes the Jaccard similarity |A ∩ B| / |A ∪ B| between this bitset and
+   * another one (1 when both are empty), no bitmap is modified
+   */
+  jaccard(otherbitmap: BitSet): number {
+    const [common, size, otherSize] = this.overlapCounts(otherbitmap);
+    const union = size + otherSize - common;
+    return union === 0 ? 1 : common / union;
+  }
+
+  /**
+   * Computes the Dice (Sørensen) similarity 2 |A ∩ B| / (|A| + |B|) between
+   * this bitset and another one (1 when both are empty), no bitmap is modified
+   */
+  dice(otherbitmap: BitSet): number {
+    const [common, size, otherSize] = this.overlapCounts(otherbitmap);
+    const total = size + otherSize;
+    return total === 0 ? 1 : (2 * common) / total;
+  }
+
+  /**
+   * Computes the cosine (Ochiai) similarity |A ∩ B| / sqrt(|A| |B|) between
+   * this bitset and another one (1 when both are empty), no bitmap is modified
+   */
+  cosine(otherbitmap: BitSet): number {
+    const [common, size, otherSize] = this.overlapCounts(otherbitmap);
+    if (size + otherSize === 0) return 1;
+    if (common === 0) return 0;
+    return common / Math.sqrt(size * otherSize);
+  }
+
+  /**
+   * Computes the Tversky similarity
+   * |A ∩ B| / (|A ∩ B| + alpha |A - B| + beta |B - A|) between this bitset (A)
+   * and another one (B), 1 when both are empty. alpha = beta = 1 gives the
+   * Jaccard similarity, alpha = beta = 0.5 gives the Dice similarity.
+   * No bitmap is modified
+   */
+  tversky(otherbitmap: BitSet, alpha: number, beta: number): number {
+    const [common, size, otherSize] = this.overlapCounts(otherbitmap);
+    if (size + otherSize === 0) return 1;
+    const denominator =
+      common + alpha * (size - common) + beta * (otherSize - common);
+    return denominator === 0 ? 0 : common / denominator;
+  }
+
+  /**
+   * Computes the Hamming distance (the number of values in only one of the
+   * two bitsets) between this bitset and another one, no bitmap is modified
+   */
+  hammingDistance(otherbitmap: BitSet): number {
+    const [common, size, otherSize] = this.overlapCounts(otherbitmap);
+    return size + otherSize - 2 * common;
+  }
+
+  // |this ∩ other|, |this| and |other|, counted in a single pass
+  private overlapCounts(otherbitmap: BitSet): [number, number, number] {
+    const words = this.words;
+    const otherWords = otherbitmap.words;
+    const tc = this._count;
+    const oc = wc(otherbitmap);
+    const mcount = Math.min(tc, oc);
+    let common = 0;
+    let size = 0;
+    let otherSize = 0;
+    let k = 0 | 0;
+    for (; k + 3 < mcount; k += 4) {
+      common += hammingWeight4(
+        words[k] & otherWords[k],
+        words[k + 1] & otherWords[k + 1],
+        words[k + 2] & otherWords[k + 2],
+        words[k + 3] & otherWords[k + 3],
+      );
+      size += hammingWeight4(
+        words[k],
+        words[k + 1],
+        words[k + 2],
+        words[k + 3],
+      );
+      otherSize += hammingWeight4(
+        otherWords[k],
+        otherWords[k + 1],
+        otherWords[k + 2],
+        otherWords[k + 3],
+      );
+    }
+    for (; k < mcount; ++k) {
+      common += hammingWeight(words[k] & otherWords[k]);
+      size += hammingWeight(words[k]);
+      otherSize += hammingWeight(otherWords[k]);
+    }
+    for (k = mcount; k < tc; ++k) {
+      size += hammingWeight(words[k]);
+    }
+    for (k = mcount; k < oc; ++k) {
+      otherSize += hammingWeight(otherWords[k]);
+    }
+    return [common, size, otherSize];
+  }
+
+  /**
+   * Computes the difference between this bitset and another one,
+   * the current bitset is modified (and returned by the function)
+   */
+  difference(otherbitmap: BitSet): this {
+    this._version++;
+    const words = this.words;
+    const otherWords = otherbitmap.words;
+    const newcount = Math.min(this._count, wc(otherbitmap));
+    let k = 0 | 0;
+    for (; k + 7 < newcount; k += 8) {
+      words[k] &= ~otherWords[k];
+      words[k + 1] &= ~otherWords[k + 1];
+      words[k + 2] &= ~otherWords[k + 2];
+      words[k + 3] &= ~otherWords[k + 3];
+      words[k + 4] &= ~otherWords[k + 4];
+      words[k + 5] &= ~otherWords[k + 5];
       words[k + 6] &= ~otherWords[k + 6];
       words[k + 7] &= ~otherWords[k + 7];
     }
@@ -535,6 +1328,7 @@ export class TypedFastBitSet implements BitSet {
    * (for this set A and other set B, this computes B = A - B  and returns B)
    */
   difference2(otherbitmap: BitSet): BitSet {
+    if (otherbitmap instanceof TypedFastBitSet) otherbitmap._version++;
     const tc = this._count;
     const mincount = Math.min(tc, wc(otherbitmap));
     otherbitmap.resizeTo((tc << 5) - 1);
@@ -575,6 +1369,27 @@ export class TypedFastBitSet implements BitSet {
     return this.clone().difference(otherbitmap); // should be fast enough
   }
 
+  /**
+   * Computes the difference between this bitset and another one into out,
+   * reusing its buffer when it is large enough; out may be this or the other
+   * bitset. Returns out.
+   */
+  differenceInto(otherbitmap: BitSet, out: TypedFastBitSet): TypedFastBitSet {
+    const words = this.words;
+    const otherWords = otherbitmap.words;
+    const tc = this._count;
+    const mcount = Math.min(tc, wc(otherbitmap));
+    const newWords = TypedFastBitSet.output(out, tc);
+    let k = 0;
+    for (; k < mcount; ++k) {
+      newWords[k] = words[k] & ~otherWords[k];
+    }
+    for (; k < tc; ++k) {
+      newWords[k] = words[k];
+    }
+    return out;
+  }
+
   /**
    * Computes the size of the difference between this bitset and another one
    */
@@ -599,6 +1414,7 @@ export class TypedFastBitSet implements BitSet {
    * the current bitset is modified (and returned by the function)
    */
   change(otherbitmap: BitSet): this {
+    this._version++;
     const otherWords = otherbitmap.words;
     const oc = wc(otherbitmap);
     const mincount = Math.min(this._count, oc);
@@ -661,6 +1477,30 @@ export class TypedFastBitSet implements BitSet {
     return new TypedFastBitSet(undefined, newWords);
   }
 
+  /**
+   * Computes the change between this bitset and another one into out,
+   * reusing its buffer when it is large enough; out may be this or the other
+   * bitset. Returns out.
+   */
+  changeInto(otherbitmap: BitSet, out: TypedFastBitSet): TypedFastBitSet {
+    const words = this.words;
+    const otherWords = otherbitmap.words;
+    const tc = this._count;
+    const oc = wc(otherbitmap);
+    const mcount = Math.min(tc, oc);
+    const newWords = TypedFastBitSet.output(out, Math.max(tc, oc));
+    for (let k = 0; k < mcount; ++k) {
+      newWords[k] = words[k] ^ otherWords[k];
+    }
+    for (let k = mcount; k < tc; ++k) {
+      newWords[k] = words[k];
+    }
+    for (let k = mcount; k < oc; ++k) {
+      newWords[k] = otherWords[k];
+    }
+    return out;
+  }
+
   /**
    * Computes the number of changed elements between this bitset and another one
    */
@@ -687,6 +1527,528 @@ export class TypedFastBitSet implements BitSet {
     return answer;
   }
 
+  /**
+   * Computes the union between this bitset and another one, restricted to the
+   * values from start (inclusive) to end (exclusive): values outside of this
+   * window are left unchanged. The current bitset is modified (and returned by the function)
+   */
+  unionInRange(otherbitmap: BitSet, start: number, end: number): this {
+    this._version++;
+    if (start < 0) start = 0;
+    end = Math.min(end, wc(otherbitmap) << 5);
+    if (start >= end) return this;
+    this.resize(end - 1);
+    const words = this.words;
+    const otherWords = otherbitmap.words;
+    const firstword = start >>> 5;
+    const endword = (end - 1) >>> 5;
+    if (firstword === endword) {
+      words[firstword] |= otherWords[firstword] & (~0 << start) & (~0 >>> -end);
+      return this;
+    }
+    words[firstword] |= otherWords[firstword] & (~0 << start);
+    for (let k = firstword + 1; k < endword; ++k) {
+      words[k] |= otherWords[k];
+    }
+    words[endword] |= otherWords[endword] & (~0 >>> -end);
+    return this;
+  }
+
+  /**
+   * Computes the intersection between this bitset and another one, restricted to
+   * the values from start (inclusive) to end (exclusive): values outside of this
+   * window are left unchanged. The current bitset is modified (and returned by the function)
+   */
+  intersectionInRange(otherbitmap: BitSet, start: number, end: number): this {
+    this._version++;
+    if (start < 0) start = 0;
+    end = Math.min(end, this._count << 5);
+    if (start >= end) return this;
+    const words = this.words;
+    const otherWords = otherbitmap.words;
+    const oc = wc(otherbitmap);
+    const firstword = start >>> 5;
+    const endword = (end - 1) >>> 5;
+    const firstmask = ~0 << start;
+    const endmask = ~0 >>> -end;
+    if (firstword === endword) {
+      words[firstword] &=
+        (firstword < oc ? otherWords[firstword] : 0) | ~(firstmask & endmask);
+      return this;
+    }
+    words[firstword] &=
+      (firstword < oc ? otherWords[firstword] : 0) | ~firstmask;
+    const mcount = Math.min(endword, oc);
+    let k = firstword + 1;
+    for (; k < mcount; ++k) {
+      words[k] &= otherWords[k];
+    }
+    for (; k < endword; ++k) {
+      words[k] = 0;
+    }
+    words[endword] &= (endword < oc ? otherWords[endword] : 0) | ~endmask;
+    return this;
+  }
+
+  /**
+   * Computes the difference between this bitset and another one, restricted to
+   * the values from start (inclusive) to end (exclusive): values outside of this
+   * window are left unchanged. The current bitset is modified (and returned by the function)
+   */
+  differenceInRange(otherbitmap: BitSet, start: number, end: number): this {
+    this._version++;
+    if (start < 0) start = 0;
+    end = Math.min(end, this._count << 5, wc(otherbitmap) << 5);
+    if (start >= end) return this;
+    const words = this.words;
+    const otherWords = otherbitmap.words;
+    const firstword = start >>> 5;
+    const endword = (end - 1) >>> 5;
+    if (firstword === endword) {
+      words[firstword] &= ~(
+        otherWords[firstword] &
+        (~0 << start) &
+        (~0 >>> -end)
+      );
+      return this;
+    }
+    words[firstword] &= ~(otherWords[firstword] & (~0 << start));
+    for (let k = firstword + 1; k < endword; ++k) {
+      words[k] &= ~otherWords[k];
+    }
+    words[endword] &= ~(otherWords[endword] & (~0 >>> -end));
+    return this;
+  }
+
+  /**
+   * Computes the changed elements (XOR) between this bitset and another one,
+   * restricted to the values from start (inclusive) to end (exclusive): values
+   * outside of this window are left unchanged. The current bitset is modified
+   * (and returned by the function)
+   */
+  changeInRange(otherbitmap: BitSet, start: number, end: number): this {
+    this._version++;
+    if (start < 0) start = 0;
+    end = Math.min(end, wc(otherbitmap) << 5);
+    if (start >= end) return this;
+    this.resize(end - 1);
+    const words = this.words;
+    const otherWords = otherbitmap.words;
+    const firstword = start >>> 5;
+    const endword = (end - 1) >>> 5;
+    if (firstword === endword) {
+      words[firstword] ^= otherWords[firstword] & (~0 << start) & (~0 >>> -end);
+      return this;
+    }
+    words[firstword] ^= otherWords[firstword] & (~0 << start);
+    for (let k = firstword + 1; k < endword; ++k) {
+      words[k] ^= otherWords[k];
+    }
+    words[endword] ^= otherWords[endword] & (~0 >>> -end);
+    return this;
+  }
+
+  /**
+   * Removes the values outside of start (inclusive) to end (exclusive),
+   * the current bitset is modified (and returned by the function)
+   */
+  clip(start: number, end: number): this {
+    this._version++;
+    if (start < 0) start = 0;
+    if (start >= end) {
+      this.removeRange(0, this._count << 5);
+      return this;
+    }
+    this.removeRange(0, start);
+    this.removeRange(end, this._count << 5);
+    return this;
+  }
+
+  /**
+   * Adds n to every value (shifts the bits toward higher indexes),
+   * the current bitset is modified (and returned by the function)
+   */
+  shiftLeft(n: number): this {
+    this._version++;
+    if (n < 0) return this.shiftRight(-n);
+    if (n === 0) return this;
+    let count = this._count;
+    while (count > 0 && this.words[count - 1] === 0) {
+      count--;
+    }
+    if (count === 0) return this;
+    this.resize((count << 5) - 1 + n);
+    const words = this.words;
+    const wordShift = n >>> 5;
+    const bitShift = n & 31;
+    if (bitShift === 0) {
+      words.copyWithin(wordShift, 0, count);
+    } else {
+      // from the top so that the source words are read before being overwritten
+      for (let k = count + wordShift; k > wordShift; k--) {
+        const source = k - wordShift;
+        words[k] =
+          (source < count ? words[source] << bitShift : 0) |
+          (words[source - 1] >>> (32 - bitShift));
+      }
+      words[wordShift] = words[0] << bitShift;
+    }
+    words.fill(0, 0, wordShift);
+    return this;
+  }
+
+  /**
+   * Subtracts n from every value, the values smaller than n are removed
+   * (shifts the bits toward lower indexes),
+   * the current bitset is modified (and returned by the function)
+   */
+  shiftRight(n: number): this {
+    this._version++;
+    if (n < 0) return this.shiftLeft(-n);
+    if (n === 0) return this;
+    const count = this._count;
+    const words = this.words;
+    if (n >= count << 5) {
+      words.fill(0, 0, count);
+      return this;
+    }
+    const wordShift = n >>> 5;
+    const bitShift = n & 31;
+    const newcount = count - wordShift;
+    if (bitShift === 0) {
+      words.copyWithin(0, wordShift, count);
+    } else {
+      for (let k = 0; k + 1 < newcount; ++k) {
+        words[k] =
+          (words[k + wordShift] >>> bitShift) |
+          (words[k + wordShift + 1] << (32 - bitShift));
+      }
+      words[newcount - 1] = words[count - 1] >>> bitShift;
+    }
+    words.fill(0, newcount, count);
+    return this;
+  }
+
+  /**
+   * Adds n to every value, a new bitmap is generated
+   */
+  new_shiftLeft(n: number): TypedFastBitSet {
+    return this.clone().shiftLeft(n);
+  }
+
+  /**
+   * Subtracts n from every value (dropping the values smaller than n),
+   * a new bitmap is generated
+   */
+  new_shiftRight(n: number): TypedFastBitSet {
+    return this.clone().shiftRight(n);
+  }
+
+  /**
+   * Rotates the values within [0, universeSize) by n positions: every value x
+   * becomes (x + n) modulo universeSize, n may be negative. The values outside
+   * of [0, universeSize) are removed.
+   * The current bitset is modified (and returned by the function)
+   */
+  rotate(n: number, universeSize: number): this {
+    this._version++;
+    this.clip(0, universeSize);
+    if (universeSize <= 0) return this;
+    const r = ((n % universeSize) + universeSize) % universeSize;
+    if (r === 0) return this;
+    // the values which wrap around
+    const wrapped = this.new_shiftRight(universeSize - r);
+    this.removeRange(universeSize - r, universeSize);
+    this.shiftLeft(r);
+    return this.union(wrapped);
+  }
+
+  /**
+   * @returns a new bitset holding the values from start (inclusive) to
+   * end (exclusive), shifted down by start
+   */
+  slice(start: number, end: number): TypedFastBitSet {
+    if (start < 0) start = 0;
+    end = Math.min(end, this._count << 5);
+    if (start >= end) return new TypedFastBitSet();
+    const length = end - start;
+    const count = (length + 31) >>> 5;
+    const newWords = new Uint32Array(count);
+    const words = this.words;
+    const wordShift = start >>> 5;
+    const bitShift = start & 31;
+    if (bitShift === 0) {
+      newWords.set(words.subarray(wordShift, wordShift + count));
+    } else {
+      const c = this._count;
+      for (let k = 0; k < count; ++k) {
+        const source = k + wordShift;
+        newWords[k] =
+          (words[source] >>> bitShift) |
+          (source + 1 < c ? words[source + 1] << (32 - bitShift) : 0);
+      }
+    }
+    if ((length & 31) !== 0) {
+      newWords[count - 1] &= ~0 >>> -length;
+    }
+    return new TypedFastBitSet(undefined, newWords);
+  }
+
+  /**
+   * Adds the values of another bitset shifted up by offset (ORs the other
+   * bitset into this one at a bit offset), the values which would fall below 0
+   * are ignored. The current bitset is modified (and returned by the function)
+   */
+  appendAt(otherbitmap: BitSet, offset: number): this {
+    this._version++;
+    if (offset < 0) {
+      return this.appendAt(otherbitmap.slice(-offset, Infinity), 0);
+    }
+    if (otherbitmap === this) {
+      otherbitmap = this.clone();
+    }
+    const otherWords = otherbitmap.words;
+    let oc = wc(otherbitmap);
+    while (oc > 0 && otherWords[oc - 1] === 0) {
+      oc--;
+    }
+    if (oc === 0) return this;
+    this.resize((oc << 5) - 1 + offset);
+    const words = this.words;
+    const wordShift = offset >>> 5;
+    const bitShift = offset & 31;
+    if (bitShift === 0) {
+      for (let k = 0; k < oc; ++k) {
+        words[k + wordShift] |= otherWords[k];
+      }
+    } else {
+      for (let k = 0; k < oc; ++k) {
+        words[k + wordShift] |= otherWords[k] << bitShift;
+        words[k + wordShift + 1] |= otherWords[k] >>> (32 - bitShift);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Adds the values of another bitset shifted up by offset,
+   * a new bitmap is generated
+   */
+  concat(otherbitmap: BitSet, offset: number): TypedFastBitSet {
+    return this.clone().appendAt(otherbitmap, offset);
+  }
+
+  /**
+   * Inserts count zero bits at position: the values greater or equal to
+   * position are shifted up by count,
+   * the current bitset is modified (and returned by the function)
+   */
+  insertBits(position: number, count: number): this {
+    this._version++;
+    if (position < 0) position = 0;
+    if (count <= 0) return this;
+    const high = this.slice(position, Infinity);
+    this.removeRange(position, this._count << 5);
+    return this.appendAt(high, position + count);
+  }
+
+  /**
+   * Deletes the count bits starting at position: the values in
+   * [position, position + count) are removed and the larger values are
+   * shifted down by count,
+   * the current bitset is modified (and returned by the function)
+   */
+  deleteBits(position: number, count: number): this {
+    this._version++;
+    if (position < 0) position = 0;
+    if (count <= 0) return this;
+    const high = this.slice(position + count, Infinity);
+    this.removeRange(position, this._count << 5);
+    return this.appendAt(high, position);
+  }
+
+  /**
+   * @returns a new bitset holding mapping[x] (or mapping(x)) for every value x,
+   * the values mapped to a negative number are dropped. Pass monotone = true
+   * when the mapping never decreases: the result is then allocated once.
+   */
+  remap(
+    mapping: Uint32Array | ((index: number) => number),
+    monotone = false,
+  ): TypedFastBitSet {
+    const map =
+      typeof mapping === "function"
+        ? mapping
+        : (index: number) => mapping[index];
+    const words = this.words;
+    const c = this._count;
+    const max = monotone ? this.max() : -1;
+    // the largest value is mapped last: when it is dropped, the size of the
+    // result is unknown and the values are added one by one
+    const top = max === -1 ? -1 : map(max);
+    if (Number.isFinite(top) && top >= 0) {
+      const answerWords = new Uint32Array((top + 32) >>> 5);
+      for (let k = 0; k < c; ++k) {
+        let w = words[k];
+        while (w != 0) {
+          const index = map((k << 5) + (31 - Math.clz32(w & -w)));
+          if (index >= 0) {
+            answerWords[index >>> 5] |= 1 << index;
+          }
+          w &= w - 1;
+        }
+      }
+      return new TypedFastBitSet(undefined, answerWords);
+    }
+    const answer = new TypedFastBitSet();
+    for (let k = 0; k < c; ++k) {
+      let w = words[k];
+      while (w != 0) {
+        const index = map((k << 5) + (31 - Math.clz32(w & -w)));
+        if (index >= 0) {
+          answer.add(index);
+        }
+        w &= w - 1;
+      }
+    }
+    return answer;
+  }
+
+  /**
+   * Extracts the bits found at the positions set in mask (PEXT): the bit at the
+   * i-th position of mask becomes bit i of the result. In other words, every
+   * value x which is also in mask is renumbered to its rank within mask, the
+   * values which are not in mask are dropped.
+   * @returns a new bitset
+   */
+  project(mask: BitSet): TypedFastBitSet {
+    const words = this.words;
+    const maskWords = mask.words;
+    const mcount = Math.min(this._count, wc(mask));
+    let total = 0;
+    for (let k = 0; k < mcount; ++k) {
+      total += hammingWeight(maskWords[k]);
+    }
+    const answerWords = new Uint32Array((total + 31) >>> 5);
+    let offset = 0;
+    for (let k = 0; k < mcount; ++k) {
+      const m = maskWords[k];
+      let w = words[k] & m;
+      if (w !== 0) {
+        // packs the bits of w found at the positions set in m
+        let packed = w;
+        if (~m !== 0) {
+          packed = 0;
+          while (w !== 0) {
+            const t = w & -w;
+            packed |= 1 << hammingWeight(m & (t - 1));
+            w ^= t;
+          }
+        }
+        const shift = offset & 31;
+        const position = offset >>> 5;
+        answerWords[position] |= packed << shift;
+        if (shift !== 0 && packed >>> (32 - shift) !== 0) {
+          answerWords[position + 1] |= packed >>> (32 - shift);
+        }
+      }
+      offset += hammingWeight(m);
+    }
+    return new TypedFastBitSet(undefined, answerWords);
+  }
+
+  /**
+   * Same as project(mask): every value x which is also in mask is renumbered
+   * to its rank within mask, the values which are not in mask are dropped.
+   * @returns a new bitset
+   */
+  compactAgainst(mask: BitSet): TypedFastBitSet {
+    return this.project(mask);
+  }
+
+  /**
+   * Scatters the bits onto the positions set in mask (PDEP), the inverse of
+   * project(mask): bit i becomes the bit at the i-th position of mask. The
+   * values greater or equal to the size of mask are dropped.
+   * @returns a new bitset
+   */
+  expand(mask: BitSet): TypedFastBitSet {
+    const maskWords = mask.words;
+    const mc = wc(mask);
+    const words = this.words;
+    const c = this._count;
+    const answerWords = new Uint32Array(mc);
+    let offset = 0; // first bit of this deposited in the current mask word
+    for (let k = 0; k < mc; ++k) {
+      const m = maskWords[k];
+      if (m === 0) continue;
+      const position = offset >>> 5;
+      if (position >= c) break;
+      const shift = offset & 31;
+      let source = words[position] >>> shift;
+      if (shift !== 0 && position + 1 < c) {
+        source |= words[position + 1] << (32 - shift);
+      }
+      if (~m === 0) {
+        answerWords[k] = source;
+      } else {
+        let deposited = 0;
+        let w = m;
+        while (w !== 0 && source !== 0) {
+          const t = w & -w;
+          if ((source & 1) !== 0) {
+            deposited |= t;
+          }
+          source >>>= 1;
+          w ^= t;
+        }
+        answerWords[k] = deposited;
+      }
+      offset += hammingWeight(m);
+    }
+    return new TypedFastBitSet(undefined, answerWords);
+  }
+
+  /**
+   * Computes the complement of this bitset within [0, universeSize),
+   * the current bitset is modified (and returned by the function)
+   */
+  complement(universeSize: number): this {
+    this._version++;
+    if (universeSize < 0) universeSize = 0;
+    const count = (universeSize + 31) >>> 5;
+    this.resizeTo(universeSize);
+    const words = this.words;
+    for (let k = 0; k < count; ++k) {
+      words[k] = ~words[k];
+    }
+    if ((universeSize & 31) !== 0) {
+      words[count - 1] &= ~0 >>> -universeSize;
+    }
+    words.fill(0, count, this._count);
+    return this;
+  }
+
+  /**
+   * Computes the complement of this bitset within [0, universeSize),
+   * a new bitmap is generated
+   */
+  new_complement(universeSize: number): TypedFastBitSet {
+    const words = this.words;
+    if (universeSize < 0) universeSize = 0;
+    const count = (universeSize + 31) >>> 5;
+    const mcount = Math.min(this._count, count);
+    const newWords = new Uint32Array(count);
+    for (let k = 0; k < mcount; ++k) {
+      newWords[k] = ~words[k];
+    }
+    newWords.fill(~0, mcount);
+    if ((universeSize & 31) !== 0) {
+      newWords[count - 1] &= ~0 >>> -universeSize;
+    }
+    return new TypedFastBitSet(undefined, newWords);
+  }
+
   /**
    * @returns a string representation
    */
@@ -699,6 +2061,7 @@ export class TypedFastBitSet implements BitSet {
    * the current bitset is modified  (and returned by the function)
    */
   union(otherbitmap: BitSet): this {
+    this._version++;
     let words = this.words;
     const otherWords = otherbitmap.words;
     const oc = wc(otherbitmap);
@@ -751,6 +2114,30 @@ export class TypedFastBitSet implements BitSet {
     return new TypedFastBitSet(undefined, newWords);
   }
 
+  /**
+   * Computes the union between this bitset and another one into out,
+   * reusing its buffer when it is large enough; out may be this or the other
+   * bitset. Returns out.
+   */
+  unionInto(otherbitmap: BitSet, out: TypedFastBitSet): TypedFastBitSet {
+    const words = this.words;
+    const otherWords = otherbitmap.words;
+    const tc = this._count;
+    const oc = wc(otherbitmap);
+    const mcount = Math.min(tc, oc);
+    const newWords = TypedFastBitSet.output(out, Math.max(tc, oc));
+    for (let k = 0; k < mcount; ++k) {
+      newWords[k] = words[k] | otherWords[k];
+    }
+    for (let k = mcount; k < tc; ++k) {
+      newWords[k] = words[k];
+    }
+    for (let k = mcount; k < oc; ++k) {
+      newWords[k] = otherWords[k];
+    }
+    return out;
+  }
+
   /**
    * Computes the size union between this bitset and another one
    */
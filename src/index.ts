@@ -1,3 +1,10 @@
-export * from "./SparseTypedFastBitSet";
-export * from "./TypedFastBitSet";
-export { BitSet } from "./utils";
+export * from "./BitSetCollection";
+export * from "./BitSetCursor";
+export * from "./BitSetExpression";
+export * from "./BitSetPool";
+export * from "./BitSetQuery";
+export * from "./MinHash";
+export * from "./RankSelectIndex";
+export * from "./SparseTypedFastBitSet";
+export * from "./TypedFastBitSet";
+export { BitSet, BitSetRelation } from "./utils";
@@ -1,3 +1,5 @@
+import type { BitSetCursor, CursorOptions } from "./BitSetCursor";
+
 // fast function to compute the Hamming weight of a 32-bit unsigned integer
 export function hammingWeight(v: number) {
   v -= (v >>> 1) & 0x55555555; // works with signed or unsigned shifts
@@ -24,6 +26,20 @@ export function hammingWeight4(v1: number, v2: number, v3: number, v4: number) {
   return ((v1 + v2 + v3 + v4) * 0x1010101) >>> 24;
 }
 
+/** How two bitsets compare, see `BitSet.relationTo` */
+export enum BitSetRelation {
+  /** Both bitsets hold the same values */
+  EQUAL,
+  /** Every value of this bitset is in the other one, which has more */
+  SUBSET,
+  /** Every value of the other bitset is in this one, which has more */
+  SUPERSET,
+  /** No value in common */
+  DISJOINT,
+  /** Some values in common, and each bitset has values the other lacks */
+  OVERLAP,
+}
+
 export interface BitSet {
   get words(): Uint32Array;
 
@@ -37,6 +53,12 @@ export interface BitSet {
   /** Set bits from start (inclusive) to end (exclusive) */
   addRange(start: number, end: number): void;
 
+  /**
+   * Adds the values of another bitset shifted up by `offset`,
+   * the current bitset is modified (and returned by the function)
+   */
+  appendAt(otherbitmap: BitSet, offset: number): BitSet;
+
   /** Return an array with the set bit locations (values) */
   array(): number[];
 
@@ -46,6 +68,12 @@ export interface BitSet {
   /** Computes size of change between this bitset and another one */
   change_size(otherbitmap: BitSet): number;
 
+  /**
+   * Computes change between bitsets over the values from start (inclusive)
+   * to end (exclusive), current bitmap is modified
+   */
+  changeInRange(otherbitmap: BitSet, start: number, end: number): BitSet;
+
   /**
    * Tries to add the value (Set the bit at `index` to `true`), returns `1` if the
    * value was added, returns `0` if the value was already present
@@ -55,9 +83,51 @@ export interface BitSet {
   /** Remove all values, reset memory usage */
   clear(): void;
 
+  /**
+   * Removes the values outside of start (inclusive) to end (exclusive),
+   * the current bitset is modified (and returned by the function)
+   */
+  clip(start: number, end: number): BitSet;
+
+  /**
+   * Computes the complement within [0, universeSize),
+   * the current bitset is modified (and returned by the function)
+   */
+  complement(universeSize: number): BitSet;
+
+  /** Computes the cosine (Ochiai) similarity with another bitset */
+  cosine(otherbitmap: BitSet): number;
+
+  /**
+   * Adds the values of another bitset shifted up by `offset`,
+   * a new bitmap is generated
+   */
+  concat(otherbitmap: BitSet, offset: number): BitSet;
+
   /** Creates a copy of this bitmap */
   clone(): BitSet;
 
+  /** Same as `project(mask)` */
+  compactAgainst(mask: BitSet): BitSet;
+
+  /** Count the values from start (inclusive) to end (exclusive) */
+  countRange(start: number, end: number): number;
+
+  /**
+   * Return a cursor over the set bit locations, which can skip ahead,
+   * iterate in reverse and be restricted to a [start, end) window
+   */
+  cursor(options?: CursorOptions): BitSetCursor;
+
+  /**
+   * Deletes the `count` bits starting at `position`, shifting the larger
+   * values down, the current bitset is modified (and returned by the function)
+   */
+  deleteBits(position: number, count: number): BitSet;
+
+  /** Computes the Dice (Sørensen) similarity with another bitset */
+  dice(otherbitmap: BitSet): number;
+
   /**
    * Computes the difference between this bitset and another one,
    * the current bitset is modified (and returned by the function)
@@ -70,6 +140,13 @@ export interface BitSet {
    */
   difference2(otherbitmap: BitSet): BitSet;
 
+  /**
+   * Computes the difference between this bitset and another one over the
+   * values from start (inclusive) to end (exclusive),
+   * the current bitset is modified (and returned by the function)
+   */
+  differenceInRange(otherbitmap: BitSet, start: number, end: number): BitSet;
+
   /** Computes the size of the difference between this bitset and another one */
   difference_size(otherbitmap: BitSet): number;
 
@@ -79,18 +156,45 @@ export interface BitSet {
    */
   equals(otherbitmap: BitSet): boolean;
 
+  /**
+   * Returns a new bitset where bit `i` is moved to the `i`-th position set
+   * in `mask` (PDEP), the inverse of `project(mask)`
+   */
+  expand(mask: BitSet): BitSet;
+
   /** If the value was not in the set, add it, otherwise remove it (flip bit at `index`) */
   flip(index: number): void;
 
+  /** Flip bits from start (inclusive) to end (exclusive) */
+  flipRange(start: number, end: number): void;
+
   /** Call a function with the set bit locations (values) */
   forEach(fnc: (index: number) => void): void;
 
+  /** Computes the Hamming distance (size of the symmetric difference) with another bitset */
+  hammingDistance(otherbitmap: BitSet): number;
+
   /** Iterate over the set bit locations */
   [Symbol.iterator](): IterableIterator<number>;
 
+  /**
+   * Are all values from start (inclusive) to end (exclusive) contained in the set?
+   * `true` for an empty range
+   */
+  hasAllInRange(start: number, end: number): boolean;
+
+  /** Is any value from start (inclusive) to end (exclusive) contained in the set? */
+  hasAnyInRange(start: number, end: number): boolean;
+
   /** Is the value contained in the set? Is the bit at `index` `true` or `false`? */
   has(index: number): boolean;
 
+  /**
+   * Inserts `count` zero bits at `position`, shifting the values at or above
+   * `position` up, the current bitset is modified (and returned by the function)
+   */
+  insertBits(position: number, count: number): BitSet;
+
   /**
    * Check if this bitset intersects with another one,
    * no bitmap is modified
@@ -106,18 +210,61 @@ export interface BitSet {
   /** Computes the size of the intersection between this bitset and another one */
   intersection_size(otherbitmap: BitSet): number;
 
+  /**
+   * Computes the intersection between this bitset and another one over the
+   * values from start (inclusive) to end (exclusive),
+   * the current bitmap is modified (and returned by the function)
+   */
+  intersectionInRange(otherbitmap: BitSet, start: number, end: number): BitSet;
+
   /** Return `true` if no bit is set */
   isEmpty(): boolean;
 
+  /** Return `true` if this bitset and the other one have no value in common */
+  isDisjointFrom(otherbitmap: BitSet): boolean;
+
+  /** Return `true` if this bitset is a subset of the other one and they differ */
+  isProperSubsetOf(otherbitmap: BitSet): boolean;
+
+  /** Return `true` if every value of this bitset is also in the other one */
+  isSubsetOf(otherbitmap: BitSet): boolean;
+
+  /** Return `true` if every value of the other bitset is also in this one */
+  isSupersetOf(otherbitmap: BitSet): boolean;
+
+  /** Computes the Jaccard similarity with another bitset */
+  jaccard(otherbitmap: BitSet): number;
+
+  /** Return `true` if no value from start (inclusive) to end (exclusive) is set */
+  isRangeEmpty(start: number, end: number): boolean;
+
+  /** Return the largest value, or -1 if the set is empty */
+  max(): number;
+
+  /** Return the smallest value, or -1 if the set is empty */
+  min(): number;
+
   /** Computes change between bitsets, a new bitset is generated */
   new_change(otherbitmap: BitSet): BitSet;
 
+  /** Computes the complement within [0, universeSize), a new bitset is generated */
+  new_complement(universeSize: number): BitSet;
+
   /**
    * Computes the intersection between this bitset and another one,
    * a new bitmap is generated
    */
   new_intersection(otherbitmap: BitSet): BitSet;
 
+  /** Adds n to every value, a new bitmap is generated */
+  new_shiftLeft(n: number): BitSet;
+
+  /**
+   * Subtracts n from every value (dropping the values smaller than n),
+   * a new bitmap is generated
+   */
+  new_shiftRight(n: number): BitSet;
+
   /**
    * Computes the difference between this bitset and another one,
    * a new bitmap is generated
@@ -126,27 +273,113 @@ export interface BitSet {
 
   new_union(otherbitmap: BitSet): BitSet;
 
+  /**
+   * Fill `buffer` with the values larger or equal to `fromIndex`, in increasing
+   * order, until it is full. Returns the number of values written
+   */
+  nextMany(buffer: Uint32Array, fromIndex?: number): number;
+
+  /** Return the smallest value not in the set that is larger or equal to `index` */
+  nextClearBit(index: number): number;
+
+  /** Return the smallest value larger or equal to `index`, or -1 if there is none */
+  nextSetBit(index: number): number;
+
+  /**
+   * Return the largest value not in the set that is smaller or equal to `index`,
+   * or -1 if there is none
+   */
+  previousClearBit(index: number): number;
+
+  /** Return the largest value smaller or equal to `index`, or -1 if there is none */
+  previousSetBit(index: number): number;
+
+  /**
+   * Returns a new bitset where the bit at the `i`-th position set in `mask`
+   * becomes bit `i` (PEXT): the values in `mask` are renumbered to their rank
+   * within `mask`, the other values are dropped
+   */
+  project(mask: BitSet): BitSet;
+
+  /** How many values are strictly smaller than `index`? */
+  rank(index: number): number;
+
+  /** Iterate over the maximal runs of consecutive values, as `[start, end)` pairs */
+  ranges(): IterableIterator<[number, number]>;
+
+  /**
+   * Compares this bitset with the other one in a single pass: EQUAL, SUBSET,
+   * SUPERSET, DISJOINT or OVERLAP, checked in this order
+   */
+  relationTo(otherbitmap: BitSet): BitSetRelation;
+
   /** Set the bit at `index` to `false` */
   remove(index: number): void;
 
   /** Remove bits from start (inclusive) to end (exclusive) */
   removeRange(start: number, end: number): void;
 
+  /**
+   * Returns a new bitset holding `mapping[x]` (or `mapping(x)`) for every
+   * value `x`, the values mapped to a negative number are dropped
+   */
+  remap(
+    mapping: Uint32Array | ((index: number) => number),
+    monotone?: boolean,
+  ): BitSet;
+
   /** Resize the bitset so that we can write a value at `index` */
   resize(index: number): void;
 
   /** Resize the bitset to a specific size */
   resizeTo(size: number): void;
 
+  /**
+   * Rotates the values within [0, universeSize) by n positions, the values
+   * outside of [0, universeSize) are removed,
+   * the current bitset is modified (and returned by the function)
+   */
+  rotate(n: number, universeSize: number): BitSet;
+
+  /** Return the `k`-th smallest value (`k` starts at 0), or -1 if there is none */
+  select(k: number): number;
+
+  /**
+   * Adds n to every value,
+   * the current bitset is modified (and returned by the function)
+   */
+  shiftLeft(n: number): BitSet;
+
+  /**
+   * Subtracts n from every value (dropping the values smaller than n),
+   * the current bitset is modified (and returned by the function)
+   */
+  shiftRight(n: number): BitSet;
+
+  /**
+   * Returns a new bitset holding the values from start (inclusive) to
+   * end (exclusive), shifted down by start
+   */
+  slice(start: number, end: number): BitSet;
+
   /** How many values stored in the set? How many set bits? */
   size(): number;
 
+  /** Return a Uint32Array with the values in increasing order */
+  toUint32Array(): Uint32Array;
+
   /** Returns a string representation */
   toString(): string;
 
   /** Reduce the memory usage to a minimum */
   trim(): void;
 
+  /**
+   * Computes the Tversky similarity with another bitset,
+   * `alpha` weights the values only in this bitset, `beta` those only in the other one
+   */
+  tversky(otherbitmap: BitSet, alpha: number, beta: number): number;
+
   /**
    * Computes the union between this bitset and another one,
    * the current bitset is modified (and returned by the function)
@@ -155,4 +388,11 @@ export interface BitSet {
 
   /** Computes the size union between this bitset and another one */
   union_size(otherbitmap: BitSet): number;
+
+  /**
+   * Computes the union between this bitset and another one over the values
+   * from start (inclusive) to end (exclusive),
+   * the current bitset is modified (and returned by the function)
+   */
+  unionInRange(otherbitmap: BitSet, start: number, end: number): BitSet;
 }